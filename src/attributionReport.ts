@@ -0,0 +1,165 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitManager } from './gitManager';
+
+export interface AttributionCounts {
+    aiLines: number;
+    humanLines: number;
+}
+
+export interface AttributionEntry extends AttributionCounts {
+    name: string;
+}
+
+export interface AttributionReport {
+    repository: string;
+    revision: string;
+    pathFilter: string;
+    generatedAt: string;
+    total: AttributionCounts;
+    files: AttributionEntry[];
+    directories: AttributionEntry[];
+    authors: AttributionEntry[];
+}
+
+/**
+ * Builds an AI/human line attribution report from `git blame`. A line counts
+ * as AI when its commit was made by the AI identity (author suffix) or carries
+ * an `AI-Assisted: true` trailer.
+ */
+export class AttributionReporter {
+    private gitManager: GitManager;
+
+    constructor(gitManager: GitManager) {
+        this.gitManager = gitManager;
+    }
+
+    async generate(
+        revision: string = 'HEAD',
+        pathFilter: string = '',
+        progress?: vscode.Progress<{message?: string, increment?: number}>
+    ): Promise<AttributionReport> {
+        // For a range like v1.0..HEAD or main...feature the files come from the end of the range
+        const endRevision = revision.includes('..') ? (revision.split(/\.\.\.?/).pop() || 'HEAD') : revision;
+        const files = await this.gitManager.listTrackedFiles(endRevision, pathFilter || undefined);
+
+        const blamed: Array<{file: string, lines: Array<{hash: string, author: string}>}> = [];
+        for (const file of files) {
+            progress?.report({ message: file, increment: 100 / Math.max(files.length, 1) });
+            const lines = (await this.gitManager.blameLines(file, revision)).filter(line => !line.boundary);
+            blamed.push({ file, lines });
+        }
+
+        const hashes = [...new Set(blamed.flatMap(b => b.lines.map(line => line.hash)))];
+        const trailerCommits = await this.gitManager.getAIAssistedCommits(hashes);
+        const suffix = vscode.workspace.getConfiguration('cursorGit').get<string>('aiAuthorSuffix', '(agent)');
+
+        const total: AttributionCounts = { aiLines: 0, humanLines: 0 };
+        const byFile = new Map<string, AttributionCounts>();
+        const byDirectory = new Map<string, AttributionCounts>();
+        const byAuthor = new Map<string, AttributionCounts>();
+
+        for (const { file, lines } of blamed) {
+            const directory = path.posix.dirname(file);
+            for (const line of lines) {
+                const isAI = this.gitManager.isAIAuthorName(line.author) || trailerCommits.has(line.hash);
+                // Credit AI lines to the person whose agent wrote them
+                const author = suffix && line.author.endsWith(suffix)
+                    ? line.author.slice(0, -suffix.length).trim()
+                    : line.author;
+
+                this.count(total, isAI);
+                this.count(this.entry(byFile, file), isAI);
+                this.count(this.entry(byDirectory, directory), isAI);
+                this.count(this.entry(byAuthor, author), isAI);
+            }
+        }
+
+        return {
+            repository: path.basename(this.gitManager.getWorkspaceRoot()),
+            revision,
+            pathFilter,
+            generatedAt: new Date().toISOString(),
+            total,
+            files: this.toEntries(byFile),
+            directories: this.toEntries(byDirectory),
+            authors: this.toEntries(byAuthor)
+        };
+    }
+
+    private entry(map: Map<string, AttributionCounts>, key: string): AttributionCounts {
+        let counts = map.get(key);
+        if (!counts) {
+            counts = { aiLines: 0, humanLines: 0 };
+            map.set(key, counts);
+        }
+        return counts;
+    }
+
+    private count(counts: AttributionCounts, isAI: boolean): void {
+        if (isAI) {
+            counts.aiLines++;
+        } else {
+            counts.humanLines++;
+        }
+    }
+
+    private toEntries(map: Map<string, AttributionCounts>): AttributionEntry[] {
+        return [...map.entries()]
+            .map(([name, counts]) => ({ name, ...counts }))
+            .sort((a, b) => b.aiLines - a.aiLines || a.name.localeCompare(b.name));
+    }
+
+    static aiPercent(counts: AttributionCounts): number {
+        const lines = counts.aiLines + counts.humanLines;
+        return lines === 0 ? 0 : (counts.aiLines / lines) * 100;
+    }
+
+    static toMarkdown(report: AttributionReport): string {
+        const table = (title: string, column: string, entries: AttributionEntry[]): string => {
+            const rows = entries.map(e =>
+                `| ${e.name} | ${e.aiLines} | ${e.humanLines} | ${AttributionReporter.aiPercent(e).toFixed(1)}% |`
+            );
+            return [
+                `## ${title}`,
+                '',
+                `| ${column} | AI lines | Human lines | AI share |`,
+                '|---|---:|---:|---:|',
+                ...rows,
+                ''
+            ].join('\n');
+        };
+
+        return [
+            `# AI Attribution Report: ${report.repository}`,
+            '',
+            `- **Revision**: \`${report.revision}\``,
+            `- **Path filter**: ${report.pathFilter ? `\`${report.pathFilter}\`` : 'none'}`,
+            `- **Generated**: ${report.generatedAt}`,
+            `- **AI lines**: ${report.total.aiLines}`,
+            `- **Human lines**: ${report.total.humanLines}`,
+            `- **AI share**: ${AttributionReporter.aiPercent(report.total).toFixed(1)}%`,
+            '',
+            table('By Author', 'Author', report.authors),
+            table('By Directory', 'Directory', report.directories),
+            table('By File', 'File', report.files)
+        ].join('\n');
+    }
+
+    static toCsv(report: AttributionReport): string {
+        const escape = (value: string): string => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+        const rows = [
+            ['total', report.repository, report.total] as const,
+            ...report.authors.map(e => ['author', e.name, e] as const),
+            ...report.directories.map(e => ['directory', e.name, e] as const),
+            ...report.files.map(e => ['file', e.name, e] as const)
+        ].map(([scope, name, counts]) =>
+            [scope, escape(name), counts.aiLines, counts.humanLines, AttributionReporter.aiPercent(counts).toFixed(1)].join(',')
+        );
+        return ['scope,name,ai_lines,human_lines,ai_percent', ...rows].join('\n') + '\n';
+    }
+
+    static toJson(report: AttributionReport): string {
+        return JSON.stringify(report, null, 2);
+    }
+}
@@ -1,5 +1,51 @@
 import * as vscode from 'vscode';
-import { GitManager } from './gitManager';
+import * as path from 'path';
+import { AIProvenance, AISessionBranch, CommitResult, GitManager, LineRange, RevertStrategy, SessionFinishStrategy } from './gitManager';
+import { DetectionPipeline, DetectionResult, SignalScore } from './detectionSignals';
+import { SecretFinding } from './secretScanner';
+import { TypingCalibration } from './typingCalibration';
+import { RepositoryRegistry } from './repositoryRegistry';
+
+/** Why a commit was classified as AI - stored as a git note on every auto-commit. */
+export interface DetectionEvidence {
+    sessions: Array<{timestamp: number, characters: number, duration: number}>;
+    peakWPM: number | null;
+    threshold: number;
+    confidence: number | null;
+    signals: SignalScore[];
+    humanActions: Array<{action: string, timestamp: number}>;
+    files: string[];
+    recordedAt: string;
+}
+
+/** What `checkTypingStatus` shows for one open document. */
+export interface DocumentTypingStatus {
+    fileUri: string;
+    isHuman: boolean | null; // null until the document has been classified
+    confidence: number | null;
+    wpm: number | null;
+    lastUserAction: number;
+    pendingCommit: boolean;
+}
+
+/** Typing and classification state for one document. */
+interface DocumentTypingState {
+    currentSession: {startTime: number, lastEditTime: number, characters: number, ranges: LineRange[]} | null;
+    typingSessions: Array<{timestamp: number, characters: number, duration: number}>;
+    isHumanTyping: boolean | null;
+    lastUserAction: number;
+    lastWPM: number | null;
+    lastTypingMode: boolean | null; // true = human, false = AI
+    detectionConfidence: number | null; // 0-1, how sure we are the last AI call was right
+    // Evidence since the last commit - for when someone asks "why was this marked as AI?" 🧾
+    peakWPM: number | null;
+    humanActions: Array<{action: string, timestamp: number}>;
+    lastSignals: SignalScore[];
+}
+
+// Documents whose typing state, pending AI changes and AI ranges we remember;
+// the least recently edited go first
+const MAX_TRACKED_DOCUMENTS = 50;
 
 /**
  * 🚀 ChangeDetector - The Sherlock Holmes of Code Changes! 🕵️‍♂️
@@ -12,37 +58,58 @@ import { GitManager } from './gitManager';
  * really bad at minding their own business. But in a helpful way! 😄
  */
 export class ChangeDetector {
-    private gitManager: GitManager;
+    private repositories: RepositoryRegistry;
+    private calibration: TypingCalibration;
     private disposables: vscode.Disposable[] = [];
     private lastCommitHash: string | null = null;
     private isEnabled: boolean = true;
     
-    // Typing Speed Tracking - Because apparently we're all speed demons now 🏎️
-    private typingSessions: Array<{timestamp: number, characters: number, duration: number}> = [];
-    private currentSession: {startTime: number, characters: number} | null = null;
-    private isHumanTyping: boolean = true; // Default to human, only set to AI when confident
-    private lastUserAction: number = 0;
-    
-    // WPM Tracking for logging changes
-    private lastWPM: number | null = null;
-    private lastTypingMode: boolean | null = null; // true = human, false = AI
+    // Typing Speed Tracking - one notebook per document, so a background agent
+    // can't blame its edits on your typing! 🏎️
+    private documentStates: Map<string, DocumentTypingState> = new Map(); // fileUri -> state, least recently used first
+    private detectionPipeline = new DetectionPipeline();
+    private recentEdits: Array<{fileUri: string, timestamp: number}> = []; // for the spread and timing signals
     
     // File Save Tracking - The moment of truth! 🎭
-    private pendingChanges: Map<string, boolean> = new Map(); // fileUri -> isAI
+    private pendingChanges: Map<string, number> = new Map(); // fileUri -> AI confidence
+    private askedFiles: Set<string> = new Set(); // fileUris waiting on a "was this AI?" answer
+    private aiRanges: Map<string, LineRange[]> = new Map(); // fileUri -> lines the AI touched
+
+    private lastCommitManager: GitManager | null = null;
+    private allowedProtectedBranches: Set<string> = new Set(); // "<repo root>:<branch>" the user said to commit on anyway
+    private aiSessions: Map<string, {session: AISessionBranch, commits: number, quietTimer: NodeJS.Timeout | null}> = new Map(); // repo root -> open session
+    
+    // Commit scheduling - because an agent saving 12 files deserves 1 commit, not 12! ⏱️
+    private commitTimer: NodeJS.Timeout | null = null;
+    private commitIntervalTimer: NodeJS.Timeout | null = null;
+    private includeUnsavedInNextCommit: boolean = false;
+    private commitQueue: Promise<void> = Promise.resolve();
+    
+    // Let everyone know when we commit - the timeline view loves gossip! 📣
+    private commitEmitter = new vscode.EventEmitter<CommitResult>();
+    readonly onDidCommit = this.commitEmitter.event;
+
+    // Whatever husky and friends had to say about our commits 🐶
+    private hookOutput = vscode.window.createOutputChannel('Cursor Git Hooks');
 
-    constructor(gitManager: GitManager) {
-        this.gitManager = gitManager;
+    constructor(repositories: RepositoryRegistry, calibration: TypingCalibration) {
+        this.repositories = repositories;
+        this.calibration = calibration;
     }
 
     async initialize(): Promise<void> {
         // Get initial commit hash - because we need to know where we started this wild journey
-        this.lastCommitHash = await this.gitManager.getLastCommit();
+        const activeManager = this.repositories.getActiveManager();
+        this.lastCommitHash = activeManager ? await activeManager.getLastCommit() : null;
 
         // Set up configuration change listener - because users love to change their minds
         const configChangeListener = vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('cursorGit.enabled')) {
                 this.updateEnabledState();
             }
+            if (e.affectsConfiguration('cursorGit.commitFrequency') || e.affectsConfiguration('cursorGit.commitInterval')) {
+                this.updateCommitInterval();
+            }
         });
 
         // Set up text document change listener for typing speed analysis
@@ -56,7 +123,7 @@ export class ChangeDetector {
         // Set up file save listener for auto-commit
         // The moment of truth - do we commit or do we not? That is the question! 🤔
         const fileSaveListener = vscode.workspace.onDidSaveTextDocument(async (document) => {
-            if (this.isEnabled && this.shouldAutoCommit()) {
+            if (this.isEnabled) {
                 await this.handleFileSave(document);
             }
         });
@@ -64,12 +131,12 @@ export class ChangeDetector {
         // Set up undo/redo listeners to detect user actions
         // Because humans are the only ones who make mistakes and then undo them! 😅
         const undoListener = vscode.commands.registerCommand('undo', () => {
-            this.flagHumanAction('undo');
+            this.flagHumanAction(this.getActiveDocumentUri(), 'undo');
             return vscode.commands.executeCommand('default:undo');
         });
 
         const redoListener = vscode.commands.registerCommand('redo', () => {
-            this.flagHumanAction('redo');
+            this.flagHumanAction(this.getActiveDocumentUri(), 'redo');
             return vscode.commands.executeCommand('default:redo');
         });
 
@@ -82,6 +149,7 @@ export class ChangeDetector {
         );
 
         await this.updateEnabledState();
+        this.updateCommitInterval();
     }
 
     private async updateEnabledState(): Promise<void> {
@@ -89,113 +157,267 @@ export class ChangeDetector {
         this.isEnabled = config.get('enabled', true);
     }
 
-    private shouldAutoCommit(): boolean {
+    private getCommitFrequency(): string {
         const config = vscode.workspace.getConfiguration('cursorGit');
-        const frequency = config.get<string>('commitFrequency', 'onSave');
-        
-        switch (frequency) {
-            case 'immediate':
-                return true;
-            case 'onSave':
-                return true;
-            case 'manual':
-                return false;
-            default:
-                return true;
+        return config.get<string>('commitFrequency', 'onSave');
+    }
+
+    // In interval mode AI changes are batched up and committed every N minutes 📦
+    private updateCommitInterval(): void {
+        if (this.commitIntervalTimer) {
+            clearInterval(this.commitIntervalTimer);
+            this.commitIntervalTimer = null;
         }
+
+        if (this.getCommitFrequency() === 'interval') {
+            const config = vscode.workspace.getConfiguration('cursorGit');
+            const minutes = config.get<number>('commitInterval', 5);
+            this.commitIntervalTimer = setInterval(() => {
+                if (this.isEnabled) {
+                    this.enqueueCommit(true);
+                }
+            }, minutes * 60 * 1000);
+        }
+    }
+
+    // Every new trigger pushes the commit back, so a burst becomes one commit
+    private scheduleCommit(delay: number, includeUnsaved: boolean): void {
+        if (this.commitTimer) {
+            clearTimeout(this.commitTimer);
+        }
+        this.includeUnsavedInNextCommit = this.includeUnsavedInNextCommit || includeUnsaved;
+        this.commitTimer = setTimeout(() => {
+            this.commitTimer = null;
+            const includeUnsavedNow = this.includeUnsavedInNextCommit;
+            this.includeUnsavedInNextCommit = false;
+            this.enqueueCommit(includeUnsavedNow);
+        }, delay);
+    }
+
+    // One commit at a time - git's index doesn't like to share 🔒
+    private enqueueCommit(includeUnsaved: boolean): void {
+        this.commitQueue = this.commitQueue
+            .then(() => this.commitChanges(includeUnsaved))
+            .catch(error => console.error('Error handling AI-generated change:', error));
     }
 
-    private analyzeTypingSpeed(event: any): void {
+    private analyzeTypingSpeed(event: vscode.TextDocumentChangeEvent): void {
         const now = Date.now();
-        
-        // Skip undo operations
-        if (event.kind === vscode.TextDocumentChangeReason.Undo) {
-            this.flagHumanAction('undo');
+        const fileUri = event.document.uri.toString();
+
+        // Output channels and other virtual documents aren't anyone's code 📺
+        if (event.document.uri.scheme !== 'file' && event.document.uri.scheme !== 'untitled') {
+            return;
+        }
+        if (event.contentChanges.length === 0) {
             return;
         }
 
-        // Analyze each content change
-        if (event.contentChanges && event.contentChanges.length > 0) {
-            for (const change of event.contentChanges) {
-                this.processChange(change, now);
-            }
+        const state = this.getDocumentState(fileUri);
+        for (const change of event.contentChanges) {
+            this.shiftTrackedRanges(fileUri, state, change);
         }
-    }
 
-    private processChange(change: any, timestamp: number): void {
-        const text = change.text || '';
-        const textLength = text.length;
-        
-        // Detect human-only actions that override WPM
-        if (this.isHumanOnlyAction(change)) {
-            this.flagHumanAction('human-action');
+        // Skip undo operations
+        if (event.reason === vscode.TextDocumentChangeReason.Undo) {
+            this.flagHumanAction(fileUri, 'undo');
             return;
         }
 
-        // Start new session if none exists
-        if (!this.currentSession) {
-            this.currentSession = {
-                startTime: timestamp,
-                characters: textLength
-            };
+        // Detect human-only actions that override the signals
+        if (event.contentChanges.length === 1 && this.isHumanOnlyAction(event.contentChanges[0])) {
+            this.flagHumanAction(fileUri, 'human-action');
             return;
         }
 
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const sessionWPM = this.updateTypingSession(state, event, now);
+        const previousEdits = this.recordEdit(fileUri, now, config.get<number>('sessionTimeout', 2000));
+        const result = this.detectionPipeline.evaluate({
+            event,
+            timestamp: now,
+            isActiveDocument: vscode.window.activeTextEditor?.document.uri.toString() === fileUri,
+            sessionWPM,
+            speedThreshold: this.calibration.getThreshold(),
+            previousEditTimes: previousEdits.filter(edit => edit.fileUri === fileUri).map(edit => edit.timestamp),
+            recentFileCount: new Set([...previousEdits.map(edit => edit.fileUri), fileUri]).size
+        }, config.get<Record<string, number>>('detectionSignalWeights', {}));
+        if (result) {
+            this.applyDetection(fileUri, state, result);
+        }
+
+        // In immediate mode, commit once the AI burst goes quiet - saved or not! ⚡
+        // Only AI edits push the commit back, so your typing elsewhere can't hold it up forever
+        const isAIEdit = !!result && result.confidence >= this.getDetectionThresholds().ask;
+        if (this.getCommitFrequency() === 'immediate' && isAIEdit) {
+            this.scheduleCommit(config.get<number>('sessionTimeout', 2000), true);
+        }
+    }
+
+    /**
+     * Adds the event to the document's typing session and returns the
+     * session's WPM once it has enough characters to be meaningful.
+     */
+    private updateTypingSession(state: DocumentTypingState, event: vscode.TextDocumentChangeEvent, timestamp: number): number | null {
+        const characters = event.contentChanges.reduce((total, change) => total + change.text.length, 0);
+        const changeRanges = event.contentChanges.map(change => this.getInsertedLineRange(change));
+
         // Get configuration values - because one size doesn't fit all! 👕
         const config = vscode.workspace.getConfiguration('cursorGit');
         const sessionTimeout = config.get<number>('sessionTimeout', 2000);
         const minCharacters = config.get<number>('minCharactersForAnalysis', 10);
-        
-        // Calculate time since last change - because timing is everything! ⏰
-        const timeSinceLastChange = timestamp - this.currentSession.startTime;
-        
-        // If more than session timeout has passed, start a new session
+
+        // Start a new session if there is none or the last one went quiet
         // Because even the best conversations have pauses! 🤐
-        if (timeSinceLastChange > sessionTimeout) {
-            this.finalizeCurrentSession();
-            this.currentSession = {
+        if (!state.currentSession || timestamp - state.currentSession.startTime > sessionTimeout) {
+            this.finalizeCurrentSession(state);
+            state.currentSession = {
                 startTime: timestamp,
-                characters: textLength
+                lastEditTime: timestamp,
+                characters,
+                ranges: changeRanges
             };
-            return;
+            return null;
         }
 
         // Add characters to current session - because every character counts! 🔢
-        this.currentSession.characters += textLength;
+        state.currentSession.characters += characters;
+        state.currentSession.lastEditTime = timestamp;
+        state.currentSession.ranges.push(...changeRanges);
+        if (state.currentSession.characters < minCharacters) {
+            return null;
+        }
 
-        // If session has enough data, analyze typing speed
-        // This is where we become the typing speed police! 🚔
-        if (this.currentSession.characters >= minCharacters) {
-            const wpm = this.calculateWPM(this.currentSession.characters, timeSinceLastChange);
-            const speedThreshold = config.get<number>('typingSpeedThreshold', 150);
-            
-            // Log WPM change if it's different from the last value
-            if (this.lastWPM === null || Math.abs(wpm - this.lastWPM) > 0.1) {
-                console.log(`📊 WPM Update: ${wpm.toFixed(1)} WPM (previous: ${this.lastWPM ? this.lastWPM.toFixed(1) : 'N/A'})`);
-                this.lastWPM = wpm;
+        const wpm = this.calculateWPM(state.currentSession.characters, timestamp - state.currentSession.startTime);
+        // Log WPM change if it's different from the last value
+        if (state.lastWPM === null || Math.abs(wpm - state.lastWPM) > 0.1) {
+            console.log(`📊 WPM Update for ${path.basename(event.document.fileName)}: ${wpm.toFixed(1)} WPM (previous: ${state.lastWPM ? state.lastWPM.toFixed(1) : 'N/A'})`);
+            state.lastWPM = wpm;
+        }
+        if (state.peakWPM === null || wpm > state.peakWPM) {
+            state.peakWPM = wpm;
+        }
+        return wpm;
+    }
+
+    /** Remembers the edit and returns the earlier ones still inside the session timeout. */
+    private recordEdit(fileUri: string, timestamp: number, window: number): Array<{fileUri: string, timestamp: number}> {
+        this.recentEdits = this.recentEdits.filter(edit => timestamp - edit.timestamp <= window).slice(-50);
+        const previous = [...this.recentEdits];
+        this.recentEdits.push({ fileUri, timestamp });
+        return previous;
+    }
+
+    // The pipeline has spoken - anything at or above the ask threshold counts as AI 🧮
+    private applyDetection(fileUri: string, state: DocumentTypingState, result: DetectionResult): void {
+        const { ask } = this.getDetectionThresholds();
+        const newTypingMode = result.confidence < ask; // false = AI, true = Human
+        const summary = result.signals.map(s => `${s.id}=${s.score.toFixed(2)}`).join(', ');
+
+        // Log typing mode change if it's different from the last mode
+        if (state.lastTypingMode === null || state.lastTypingMode !== newTypingMode) {
+            const modeText = newTypingMode ? 'Human' : 'AI';
+            const previousModeText = state.lastTypingMode === null ? 'Unknown' : (state.lastTypingMode ? 'Human' : 'AI');
+            console.log(`🔄 Typing Mode Change in ${fileUri}: ${previousModeText} → ${modeText} (confidence ${result.confidence.toFixed(2)}: ${summary})`);
+            state.lastTypingMode = newTypingMode;
+        }
+
+        if (!newTypingMode && state.currentSession) {
+            state.isHumanTyping = false; // AI typing detected - BUSTED! 🚨
+            state.detectionConfidence = result.confidence;
+            state.lastSignals = result.signals;
+            this.recordAIRanges(fileUri, state.currentSession.ranges, result.confidence);
+            state.currentSession.ranges = [];
+        } else {
+            state.isHumanTyping = true; // Human typing confirmed - you're safe! ✅
+            state.lastUserAction = Date.now();
+            // Lines you typed must not ride along with a later AI verdict in the same session
+            if (state.currentSession) {
+                state.currentSession.ranges = [];
             }
-            
-            const newTypingMode = wpm > speedThreshold ? false : true; // false = AI, true = Human
-            
-            // Log typing mode change if it's different from the last mode
-            if (this.lastTypingMode === null || this.lastTypingMode !== newTypingMode) {
-                const modeText = newTypingMode ? 'Human' : 'AI';
-                const previousModeText = this.lastTypingMode === null ? 'Unknown' : (this.lastTypingMode ? 'Human' : 'AI');
-                console.log(`🔄 Typing Mode Change: ${previousModeText} → ${modeText} (${wpm.toFixed(1)} WPM, threshold: ${speedThreshold})`);
-                this.lastTypingMode = newTypingMode;
+        }
+    }
+
+    /** Returns the document's state, creating it if needed and marking it most recently used. */
+    private getDocumentState(fileUri: string): DocumentTypingState {
+        let state = this.documentStates.get(fileUri);
+        if (state) {
+            this.documentStates.delete(fileUri);
+        } else {
+            state = {
+                currentSession: null,
+                typingSessions: [],
+                isHumanTyping: null,
+                lastUserAction: 0,
+                lastWPM: null,
+                lastTypingMode: null,
+                detectionConfidence: null,
+                peakWPM: null,
+                humanActions: [],
+                lastSignals: []
+            };
+        }
+        this.documentStates.set(fileUri, state);
+
+        if (this.documentStates.size > MAX_TRACKED_DOCUMENTS) {
+            const oldest = this.documentStates.keys().next().value;
+            if (oldest !== undefined) {
+                // Forget everything else we hold for it too, or those maps grow forever
+                this.documentStates.delete(oldest);
+                this.pendingChanges.delete(oldest);
+                this.aiRanges.delete(oldest);
+                this.askedFiles.delete(oldest);
             }
-            
-            if (wpm > speedThreshold) {
-                this.isHumanTyping = false; // AI typing detected - BUSTED! 🚨
-                console.log(`AI typing detected: ${wpm.toFixed(1)} WPM (threshold: ${speedThreshold})`);
-            } else {
-                this.isHumanTyping = true; // Human typing confirmed - you're safe! ✅
-                console.log(`Human typing confirmed: ${wpm.toFixed(1)} WPM (threshold: ${speedThreshold})`);
+        }
+        return state;
+    }
+
+    private getActiveDocumentUri(): string | undefined {
+        return vscode.window.activeTextEditor?.document.uri.toString();
+    }
+
+    private getDetectionThresholds(): {ask: number, commit: number} {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const commit = config.get<number>('aiCommitThreshold', 0.75);
+        return { ask: Math.min(config.get<number>('aiAskThreshold', 0.5), commit), commit };
+    }
+
+    private getInsertedLineRange(change: vscode.TextDocumentContentChangeEvent): LineRange {
+        const startLine = change.range.start.line;
+        const insertedLines = (change.text || '').split('\n').length - 1;
+        return { startLine, endLine: startLine + insertedLines };
+    }
+
+    private recordAIRanges(fileUri: string, ranges: LineRange[], confidence: number): void {
+        this.pendingChanges.set(fileUri, Math.max(this.pendingChanges.get(fileUri) ?? 0, confidence));
+        this.aiRanges.set(fileUri, [...(this.aiRanges.get(fileUri) || []), ...ranges]);
+    }
+
+    // Keep recorded AI ranges pointing at the same lines as edits above them
+    // add or remove lines - because line numbers are a moving target! 🎯
+    private shiftTrackedRanges(fileUri: string, state: DocumentTypingState, change: vscode.TextDocumentContentChangeEvent): void {
+        const removedLines = change.range.end.line - change.range.start.line;
+        const addedLines = (change.text || '').split('\n').length - 1;
+        const delta = addedLines - removedLines;
+        if (delta === 0) {
+            return;
+        }
+
+        const tracked = [
+            ...(this.aiRanges.get(fileUri) || []),
+            ...(state.currentSession?.ranges || [])
+        ];
+        for (const range of tracked) {
+            if (range.startLine > change.range.end.line) {
+                range.startLine += delta;
+                range.endLine += delta;
+            } else if (range.endLine >= change.range.start.line) {
+                range.endLine = Math.max(range.startLine, range.endLine + delta);
             }
         }
     }
 
-    private isHumanOnlyAction(change: any): boolean {
+    private isHumanOnlyAction(change: vscode.TextDocumentContentChangeEvent): boolean {
         const text = change.text || '';
         
         // Detect deletions (backspace, delete key) - because humans love to delete things! 🗑️
@@ -208,18 +430,8 @@ export class ChangeDetector {
             return true;
         }
         
-        // Detect very small changes (likely manual editing) - because humans are detail-oriented! 🔍
-        if (text.length <= 2 && change.rangeLength <= 2) {
-            return true;
-        }
-        
-        // Detect copy/paste patterns (large text blocks with no typing delay)
-        // Because humans are lazy and AI is... well, also lazy but in a different way! 😴
-        if (text.length > 50 && change.rangeLength === 0) {
-            // Large text insertion with no deletion - likely copy/paste
-            return true;
-        }
-        
+        // Keystrokes and large pastes alike are left to the detection signals -
+        // Cursor's apply looks exactly like a paste! 📋
         return false;
     }
 
@@ -231,70 +443,501 @@ export class ChangeDetector {
         return words / minutes;
     }
 
-    private finalizeCurrentSession(): void {
-        if (this.currentSession) {
-            const duration = Date.now() - this.currentSession.startTime;
-            this.typingSessions.push({
-                timestamp: this.currentSession.startTime,
-                characters: this.currentSession.characters,
+    private finalizeCurrentSession(state: DocumentTypingState): void {
+        if (state.currentSession) {
+            const duration = Date.now() - state.currentSession.startTime;
+            state.typingSessions.push({
+                timestamp: state.currentSession.startTime,
+                characters: state.currentSession.characters,
                 duration: duration
             });
             
             // Keep only last 10 sessions - because we're not hoarders! 🏠
-            if (this.typingSessions.length > 10) {
-                this.typingSessions.shift();
+            if (state.typingSessions.length > 10) {
+                state.typingSessions.shift();
+            }
+
+            // Human-confirmed sessions teach the calibration what your normal pace looks like 🎓
+            const typingTime = state.currentSession.lastEditTime - state.currentSession.startTime;
+            const minCharacters = vscode.workspace.getConfiguration('cursorGit').get<number>('minCharactersForAnalysis', 10);
+            if (state.isHumanTyping === true && state.currentSession.characters >= minCharacters && typingTime >= 1000) {
+                this.calibration.recordHumanSession(this.calculateWPM(state.currentSession.characters, typingTime))
+                    .catch(error => console.error('Error recording calibration session:', error));
             }
             
-            this.currentSession = null;
+            state.currentSession = null;
         }
     }
 
-    private flagHumanAction(action: string): void {
+    private flagHumanAction(fileUri: string | undefined, action: string): void {
+        if (!fileUri) {
+            return;
+        }
+        const state = this.getDocumentState(fileUri);
         const now = Date.now();
-        this.isHumanTyping = true;
-        this.lastUserAction = now;
-        console.log(`Human action detected: ${action} - because humans are the only ones who ${action}! 🧑‍💻`);
+        state.isHumanTyping = true;
+        state.lastUserAction = now;
+        console.log(`Human action detected in ${fileUri}: ${action} - because humans are the only ones who ${action}! 🧑‍💻`);
+        
+        state.humanActions.push({ action, timestamp: now });
+        if (state.humanActions.length > 20) {
+            state.humanActions.shift();
+        }
         
         // Reset WPM tracking when human action is detected
-        this.lastWPM = null;
-        this.lastTypingMode = null;
+        state.lastWPM = null;
+        state.lastTypingMode = null;
     }
 
     private async handleFileSave(document: vscode.TextDocument): Promise<void> {
         const fileUri = document.uri.toString();
         
-        // Check if we have pending changes for this file - the moment of truth! 🎭
-        const isAI = this.pendingChanges.get(fileUri) || this.isHumanTyping === false;
+        // Check this file's own history - the moment of truth! 🎭
+        const state = this.documentStates.get(fileUri);
+        const confidence = this.pendingChanges.get(fileUri) ?? (state?.isHumanTyping === false ? state.detectionConfidence ?? 1 : 0);
         
-        if (isAI) {
-            console.log(`Auto-committing AI changes for file: ${document.fileName} - because AI deserves credit too! 🤖`);
-            await this.commitChanges(document);
+        if (confidence >= this.getDetectionThresholds().ask) {
+            this.pendingChanges.set(fileUri, confidence);
+            const frequency = this.getCommitFrequency();
+            if (frequency === 'onSave' || frequency === 'immediate') {
+                console.log(`Auto-committing AI changes for file: ${document.fileName} - because AI deserves credit too! 🤖`);
+                const config = vscode.workspace.getConfiguration('cursorGit');
+                this.scheduleCommit(config.get<number>('saveDebounce', 1000), false);
+            }
         } else {
             console.log(`Skipping commit for human changes: ${document.fileName} - because humans need to learn to commit their own work! 😄`);
+            this.pendingChanges.delete(fileUri);
+            this.aiRanges.delete(fileUri);
+        }
+    }
+
+    /**
+     * Collects the documents that received AI-classified edits since the last
+     * commit with a confidence in `[minConfidence, belowConfidence)`. Dirty
+     * documents are skipped unless `includeUnsaved` is set, in which case their
+     * in-memory contents get committed.
+     */
+    private getPendingAIFiles(includeUnsaved: boolean, minConfidence: number, belowConfidence: number = Infinity): Map<string, string> {
+        const files = new Map<string, string>(); // fileUri -> fsPath
+        for (const [fileUri, confidence] of this.pendingChanges) {
+            if (confidence < minConfidence || confidence >= belowConfidence) {
+                continue;
+            }
+            const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === fileUri);
+            if (openDocument?.isDirty && !includeUnsaved) {
+                continue;
+            }
+            files.set(fileUri, vscode.Uri.parse(fileUri).fsPath);
+        }
+        return files;
+    }
+
+    private async commitChanges(includeUnsaved: boolean = false): Promise<void> {
+        // Only the files the AI actually touched - your half-finished human edits stay yours! 🙅
+        const { ask, commit } = this.getDetectionThresholds();
+        this.confirmUncertainFiles(this.getPendingAIFiles(includeUnsaved, ask, commit), includeUnsaved);
+        const aiFiles = this.getPendingAIFiles(includeUnsaved, commit);
+        if (aiFiles.size === 0) {
+            return;
+        }
+
+        // Route each file to the repository that owns it - no cross-repo mix-ups! 🗺️
+        const filesByRepository = new Map<GitManager, Map<string, string>>();
+        for (const [fileUri, fsPath] of aiFiles) {
+            const manager = await this.repositories.resolveManagerForUri(vscode.Uri.parse(fileUri));
+            if (!manager) {
+                console.log(`No repository owns ${fsPath}, dropping it from pending AI changes`);
+                this.pendingChanges.delete(fileUri);
+                this.aiRanges.delete(fileUri);
+                continue;
+            }
+            const repositoryFiles = filesByRepository.get(manager) || new Map<string, string>();
+            repositoryFiles.set(fileUri, fsPath);
+            filesByRepository.set(manager, repositoryFiles);
+        }
+
+        for (const [manager, repositoryFiles] of filesByRepository) {
+            await this.commitRepositoryChanges(manager, repositoryFiles, includeUnsaved);
         }
-        
-        // Clear pending changes for this file - because we're not messy! 🧹
-        this.pendingChanges.delete(fileUri);
     }
 
-    private async commitChanges(document: vscode.TextDocument): Promise<void> {
+    /**
+     * Asks whether files between the ask and commit thresholds are AI edits.
+     * The question doesn't hold up the commit queue: the files stay pending
+     * until it's answered, and a dismissed question is asked again next time.
+     */
+    private confirmUncertainFiles(files: Map<string, string>, includeUnsaved: boolean): void {
+        const fileUris = [...files.keys()].filter(fileUri => !this.askedFiles.has(fileUri));
+        if (fileUris.length === 0) {
+            return;
+        }
+
+        fileUris.forEach(fileUri => this.askedFiles.add(fileUri));
+        const confidence = Math.max(...fileUris.map(fileUri => this.pendingChanges.get(fileUri) ?? 0));
+        const names = fileUris.map(fileUri => path.basename(files.get(fileUri) || fileUri));
+        const label = names.length > 3 ? `${names.slice(0, 3).join(', ')} and ${names.length - 3} more` : names.join(', ');
+        vscode.window.showInformationMessage(
+            `${label} may have been written by AI (${Math.round(confidence * 100)}% confidence). Commit as AI changes?`,
+            'Commit as AI',
+            'Not AI'
+        ).then(selection => {
+            for (const fileUri of fileUris) {
+                this.askedFiles.delete(fileUri);
+                if (selection === 'Commit as AI' && this.pendingChanges.has(fileUri)) {
+                    this.pendingChanges.set(fileUri, 1);
+                } else if (selection === 'Not AI') {
+                    this.pendingChanges.delete(fileUri);
+                    this.aiRanges.delete(fileUri);
+                }
+            }
+            if (selection === 'Commit as AI') {
+                this.enqueueCommit(includeUnsaved);
+            }
+        });
+    }
+
+    private async commitRepositoryChanges(gitManager: GitManager, aiFiles: Map<string, string>, includeUnsaved: boolean): Promise<void> {
         try {
-            // Check if there are actually changes to commit - because we're not here to waste time! ⏰
-            const modifiedFiles = await this.gitManager.getModifiedFiles();
-            if (modifiedFiles.length === 0) {
+            const aiRanges = new Map<string, LineRange[]>(); // fsPath -> lines the AI touched
+            const buffers = new Map<string, string>(); // fsPath -> unsaved contents
+            for (const [fileUri, fsPath] of aiFiles) {
+                const ranges = this.aiRanges.get(fileUri);
+                if (ranges) {
+                    aiRanges.set(fsPath, ranges);
+                }
+                const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === fileUri);
+                if (includeUnsaved && openDocument?.isDirty) {
+                    buffers.set(fsPath, openDocument.getText());
+                }
+            }
+
+            // Shadow mode keeps the provenance on a private ref - your branch stays pristine! 👻
+            const config = vscode.workspace.getConfiguration('cursorGit');
+            const commitMode = config.get<string>('commitMode', 'branch');
+            if (commitMode === 'session') {
+                if (!(await this.ensureAISession(gitManager))) {
+                    console.log('Auto-commit paused without an AI session branch, keeping changes pending');
+                    return;
+                }
+            } else if (commitMode !== 'shadow' && !(await this.guardProtectedBranch(gitManager))) {
+                console.log('Auto-commit paused on a protected branch, keeping changes pending');
                 return;
             }
 
-            const result = await this.gitManager.stageAndCommit();
+            const states = [...aiFiles.keys()].map(fileUri => this.documentStates.get(fileUri)).filter((s): s is DocumentTypingState => !!s);
+            const peakWPMs = states.map(s => s.peakWPM).filter((wpm): wpm is number => wpm !== null);
+            const provenance: AIProvenance = {
+                confidence: Math.max(...[...aiFiles.keys()].map(fileUri => this.pendingChanges.get(fileUri) ?? 0)),
+                wpm: peakWPMs.length > 0 ? Math.max(...peakWPMs) : undefined
+            };
+            const result = commitMode === 'shadow'
+                ? await gitManager.recordShadowSnapshot([...aiFiles.values()], undefined, provenance, buffers)
+                : await gitManager.stageAndCommit(undefined, [...aiFiles.values()], aiRanges, provenance, buffers);
+            if (result.success || result.error === 'No modified files') {
+                // Clear pending changes for these files - because we're not messy! 🧹
+                for (const fileUri of aiFiles.keys()) {
+                    this.pendingChanges.delete(fileUri);
+                    this.aiRanges.delete(fileUri);
+                    // The verdict covered what was just committed - the next save starts from a clean slate
+                    const state = this.documentStates.get(fileUri);
+                    if (state) {
+                        state.isHumanTyping = null;
+                        state.detectionConfidence = null;
+                    }
+                }
+            }
+            if (result.success && result.hash) {
+                await gitManager.addCommitNote(result.hash, this.collectEvidence(gitManager, aiFiles, provenance.confidence ?? null));
+                this.resetEvidence(aiFiles);
+            }
             if (result.success) {
+                this.commitEmitter.fire(result);
+            }
+            if (result.hookOutput !== undefined) {
+                this.reportHookOutput(gitManager, result);
+            }
+            if (result.secrets && result.secrets.length > 0) {
+                this.showSecretNotification(gitManager, result.secrets, !result.success);
+            }
+            if (result.success && commitMode === 'session') {
+                this.extendAISession(gitManager);
+            }
+            if (result.success && result.ref) {
+                this.showSnapshotNotification(result.message, result.ref);
+            } else if (result.success) {
                 this.lastCommitHash = result.hash || null;
+                this.lastCommitManager = gitManager;
                 this.showCommitNotification(result.message);
+                await this.commitSubmodulePointer(gitManager);
+            } else if (result.blocked && !result.secrets?.length) {
+                // Policy said no - the changes stay pending so the next attempt can pick them up 🚧
+                vscode.window.showWarningMessage(`Auto-commit blocked: ${result.error}`);
             }
         } catch (error) {
             console.error('Error handling AI-generated change:', error);
         }
     }
 
+    /**
+     * Keeps AI commits off protected branches: either asks first, or moves the
+     * work to a fresh `ai/<base>-<timestamp>` branch. Returns false when the
+     * commit should not happen now.
+     */
+    private async guardProtectedBranch(gitManager: GitManager): Promise<boolean> {
+        const branch = await gitManager.getCurrentBranch();
+        const allowKey = `${gitManager.getWorkspaceRoot()}:${branch}`;
+        if (!branch || !gitManager.isProtectedBranch(branch) || this.allowedProtectedBranches.has(allowKey)) {
+            return true;
+        }
+
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        let action = config.get<string>('protectedBranchAction', 'ask');
+        if (action === 'ask') {
+            // Modal on purpose - auto-commit waits here until someone decides 🛑
+            const choice = await vscode.window.showWarningMessage(
+                `"${branch}" is a protected branch. Where should AI changes be committed?`,
+                { modal: true, detail: 'Creating a branch carries your uncommitted changes over to it.' },
+                'Create AI Branch',
+                'Commit Here Anyway'
+            );
+            if (choice === 'Commit Here Anyway') {
+                this.allowedProtectedBranches.add(allowKey);
+                return true;
+            }
+            action = choice === 'Create AI Branch' ? 'redirect' : 'pause';
+        }
+
+        if (action !== 'redirect') {
+            return false;
+        }
+
+        try {
+            const redirectBranch = await gitManager.createRedirectBranch(branch);
+            vscode.window.showInformationMessage(`AI changes are now committed on ${redirectBranch} instead of ${branch}.`);
+            return true;
+        } catch (error) {
+            console.error('Error creating redirect branch:', error);
+            vscode.window.showErrorMessage(`Could not create a branch for AI commits: ${error instanceof Error ? error.message : error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Opens an `ai-session/<base>-<timestamp>` branch for this repository
+     * unless one is already open, so the whole AI burst lands in one place.
+     * A burst only starts a session after the human has been idle for
+     * `aiSessionIdleTime`; AI edits mixed into human work are committed on the
+     * current branch, behind the protected-branch guard. Returns false when
+     * the commit should not happen now.
+     */
+    private async ensureAISession(gitManager: GitManager): Promise<boolean> {
+        const root = gitManager.getWorkspaceRoot();
+        const open = this.aiSessions.get(root);
+        const branch = await gitManager.getCurrentBranch();
+        if (open && open.session.branch === branch) {
+            return true;
+        }
+        if (open) {
+            // Someone switched branches under us - that session is over 🔚
+            this.closeAISession(root);
+        }
+        if (!branch) {
+            console.log('Detached HEAD, keeping AI changes pending until a branch is checked out');
+            return false;
+        }
+
+        // Still on an unfinished session branch (it went quiet, or VS Code restarted) - carry on there instead of nesting 🪆
+        const unfinished = (await gitManager.getAISessionBranches()).find(s => s.branch === branch);
+        if (unfinished) {
+            this.aiSessions.set(root, { session: unfinished, commits: 0, quietTimer: null });
+            return true;
+        }
+
+        const idleTime = vscode.workspace.getConfiguration('cursorGit').get<number>('aiSessionIdleTime', 30000);
+        const lastHumanAction = Math.max(0, ...[...this.documentStates.values()].map(s => s.lastUserAction));
+        if (Date.now() - lastHumanAction < idleTime) {
+            return this.guardProtectedBranch(gitManager);
+        }
+
+        try {
+            const sessionBranch = await gitManager.createSessionBranch(branch);
+            this.aiSessions.set(root, { session: { branch: sessionBranch, base: branch }, commits: 0, quietTimer: null });
+            vscode.window.setStatusBarMessage(`AI session started on ${sessionBranch}`, 5000);
+            return true;
+        } catch (error) {
+            console.error('Error starting AI session branch:', error);
+            vscode.window.showErrorMessage(`Could not start an AI session branch: ${error instanceof Error ? error.message : error}`);
+            return false;
+        }
+    }
+
+    /** Counts the commit and restarts the quiet timer that closes the session. */
+    private extendAISession(gitManager: GitManager): void {
+        const root = gitManager.getWorkspaceRoot();
+        const open = this.aiSessions.get(root);
+        if (!open) {
+            return;
+        }
+
+        open.commits++;
+        if (open.quietTimer) {
+            clearTimeout(open.quietTimer);
+        }
+        const quietTime = vscode.workspace.getConfiguration('cursorGit').get<number>('aiSessionQuietTime', 600000);
+        open.quietTimer = setTimeout(() => {
+            this.closeAISession(root);
+            vscode.window.showInformationMessage(
+                `AI session on ${open.session.branch} closed after ${open.commits} commit(s).`,
+                'Finish Session'
+            ).then(selection => {
+                if (selection === 'Finish Session') {
+                    this.finishAISession(gitManager, open.session);
+                }
+            });
+        }, quietTime);
+    }
+
+    private closeAISession(root: string): void {
+        const open = this.aiSessions.get(root);
+        if (open?.quietTimer) {
+            clearTimeout(open.quietTimer);
+        }
+        this.aiSessions.delete(root);
+    }
+
+    /**
+     * Lands or drops an AI session branch: shows the combined diff, then
+     * squash-merges, rebase-merges or discards it onto the branch it started from.
+     */
+    public async finishAISession(gitManager: GitManager, session?: AISessionBranch): Promise<void> {
+        if (!session) {
+            const sessions = await gitManager.getAISessionBranches();
+            if (sessions.length === 0) {
+                vscode.window.showInformationMessage('There are no AI session branches to finish.');
+                return;
+            }
+
+            const currentBranch = await gitManager.getCurrentBranch();
+            session = sessions.find(s => s.branch === currentBranch);
+            if (!session) {
+                const picked = sessions.length === 1 ? { session: sessions[0] } : await vscode.window.showQuickPick(
+                    sessions.map(s => ({ label: s.branch, description: `from ${s.base}`, session: s })),
+                    { placeHolder: 'Which AI session should be finished?' }
+                );
+                if (!picked) {
+                    return;
+                }
+                session = picked.session;
+            }
+        }
+
+        const diff = await gitManager.getSessionDiff(session);
+        const document = await vscode.workspace.openTextDocument({ content: diff || '(no changes)', language: 'diff' });
+        await vscode.window.showTextDocument(document, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+
+        const choice = await vscode.window.showQuickPick([
+            { label: 'Squash merge', description: `One commit on ${session.base} with a generated summary`, strategy: 'squash' as SessionFinishStrategy },
+            { label: 'Rebase merge', description: `Replay each session commit onto ${session.base}`, strategy: 'rebase' as SessionFinishStrategy },
+            { label: 'Discard', description: `Delete ${session.branch} and everything on it`, strategy: 'discard' as SessionFinishStrategy }
+        ], { placeHolder: `How should ${session.branch} be finished?` });
+        if (!choice) {
+            return;
+        }
+        if (choice.strategy === 'discard') {
+            const confirm = await vscode.window.showWarningMessage(
+                `Discard ${session.branch}? Its commits will be lost.`,
+                { modal: true },
+                'Discard'
+            );
+            if (confirm !== 'Discard') {
+                return;
+            }
+        }
+
+        const result = await gitManager.finishAISession(session, choice.strategy);
+        if (result.success) {
+            const root = gitManager.getWorkspaceRoot();
+            if (this.aiSessions.get(root)?.session.branch === session.branch) {
+                this.closeAISession(root);
+            }
+            this.commitEmitter.fire(result);
+            vscode.window.showInformationMessage(`AI session finished: ${result.message}`);
+        } else {
+            vscode.window.showErrorMessage(`Failed to finish ${session.branch}: ${result.error}`);
+        }
+    }
+
+    // The evidence comes from the committed documents only - the file you were typing in stays out of it 🧾
+    private collectEvidence(gitManager: GitManager, aiFiles: Map<string, string>, confidence: number | null): DetectionEvidence {
+        const states = [...aiFiles.keys()].map(fileUri => this.documentStates.get(fileUri)).filter((s): s is DocumentTypingState => !!s);
+        const sessions = states.flatMap(state => [
+            ...state.typingSessions,
+            ...(state.currentSession ? [{
+                timestamp: state.currentSession.startTime,
+                characters: state.currentSession.characters,
+                duration: Date.now() - state.currentSession.startTime
+            }] : [])
+        ]).sort((a, b) => a.timestamp - b.timestamp);
+        const peakWPMs = states.map(state => state.peakWPM).filter((wpm): wpm is number => wpm !== null);
+        const mostConfident = states.reduce<DocumentTypingState | null>(
+            (best, state) => (state.detectionConfidence ?? -1) > (best?.detectionConfidence ?? -1) ? state : best,
+            null
+        );
+
+        return {
+            sessions,
+            peakWPM: peakWPMs.length > 0 ? Math.max(...peakWPMs) : null,
+            threshold: this.calibration.getThreshold(),
+            confidence,
+            signals: mostConfident ? [...mostConfident.lastSignals] : [],
+            humanActions: states.flatMap(state => state.humanActions).sort((a, b) => a.timestamp - b.timestamp),
+            files: [...aiFiles.values()].map(file => path.relative(gitManager.getWorkspaceRoot(), file).split(path.sep).join('/')),
+            recordedAt: new Date().toISOString()
+        };
+    }
+
+    private resetEvidence(aiFiles: Map<string, string>): void {
+        for (const fileUri of aiFiles.keys()) {
+            const state = this.documentStates.get(fileUri);
+            if (state) {
+                state.peakWPM = null;
+                state.humanActions = [];
+                state.lastSignals = [];
+            }
+        }
+    }
+
+    // When the commit landed in a submodule, optionally record the new pointer
+    // in the superproject too - because parents like to know what the kids are up to! 👪
+    private async commitSubmodulePointer(gitManager: GitManager): Promise<void> {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        if (!config.get<boolean>('commitSubmodulePointer', false)) {
+            return;
+        }
+
+        const superprojectRoot = await gitManager.getSuperprojectRoot();
+        if (!superprojectRoot) {
+            return;
+        }
+
+        const superproject = this.repositories.getManagerForRoot(superprojectRoot);
+        const submoduleName = this.repositories.getRepositoryName(gitManager);
+        // The superproject's branch gets the same protection as any other 🛡️
+        if (!(await this.guardProtectedBranch(superproject))) {
+            console.log(`Skipping the ${submoduleName} submodule pointer update on a protected superproject branch`);
+            return;
+        }
+        const result = await superproject.stageAndCommit(
+            `chore: update ${submoduleName} submodule pointer`,
+            [gitManager.getWorkspaceRoot()]
+        );
+        if (result.success) {
+            console.log(`Updated submodule pointer for ${submoduleName} in ${superprojectRoot}`);
+        } else if (result.error !== 'No modified files') {
+            console.error(`Failed to update submodule pointer for ${submoduleName}:`, result.error);
+        }
+    }
+
     private showCommitNotification(message: string): void {
         const config = vscode.workspace.getConfiguration('cursorGit');
         const showNotifications = config.get('showNotifications', true);
@@ -307,47 +950,137 @@ export class ChangeDetector {
             ).then(selection => {
                 if (selection === 'View Changes') {
                     vscode.commands.executeCommand('git.openChange');
-                } else if (selection === 'Revert') {
-                    this.revertLastCommit();
+                } else if (selection === 'Revert' && this.lastCommitManager && this.lastCommitHash) {
+                    this.revertAutoCommit(this.lastCommitManager, this.lastCommitHash);
                 }
             });
         }
     }
 
-    private async revertLastCommit(): Promise<void> {
-        const result = await vscode.window.showWarningMessage(
-            'Are you sure you want to revert the last commit? - because sometimes we all make mistakes! 😅',
-            'Yes', 'No'
-        );
+    private reportHookOutput(gitManager: GitManager, result: CommitResult): void {
+        const repositoryName = this.repositories.getRepositoryName(gitManager);
+        const outcome = result.success ? `committed ${result.hash?.substring(0, 7)}` : 'commit failed';
+        this.hookOutput.appendLine(`[${new Date().toLocaleTimeString()}] ${repositoryName}: ${outcome}`);
+        if (result.hookOutput?.trim()) {
+            this.hookOutput.appendLine(result.hookOutput.trimEnd());
+        }
+        this.hookOutput.appendLine('');
+
+        if (!result.success) {
+            vscode.window.showErrorMessage(
+                `Auto-commit failed in ${repositoryName}. Your index is as it was and the AI changes stay pending.`,
+                'Show Output'
+            ).then(selection => {
+                if (selection === 'Show Output') {
+                    this.hookOutput.show(true);
+                }
+            });
+        }
+    }
+
+    showHookOutput(): void {
+        this.hookOutput.show(true);
+    }
+
+    // Secrets are never quiet, even with notifications off - nobody wants their AWS key on GitHub! 🔑
+    private showSecretNotification(gitManager: GitManager, findings: SecretFinding[], blocked: boolean): void {
+        const [first] = findings;
+        const more = findings.length > 1 ? ` (+${findings.length - 1} more)` : '';
+        const outcome = blocked ? 'Auto-commit blocked' : `${first.file} was left out of the auto-commit`;
+        vscode.window.showWarningMessage(
+            `${outcome}: possible ${first.description} at ${first.file}:${first.line} (${first.redacted})${more}`,
+            'Open Line'
+        ).then(async selection => {
+            if (selection === 'Open Line') {
+                const uri = vscode.Uri.joinPath(vscode.Uri.file(gitManager.getWorkspaceRoot()), first.file);
+                const position = new vscode.Position(Math.max(first.line - 1, 0), 0);
+                await vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position) });
+            }
+        });
+    }
+
+    private showSnapshotNotification(message: string, ref: string): void {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const showNotifications = config.get('showNotifications', true);
+        
+        if (showNotifications) {
+            vscode.window.showInformationMessage(
+                `AI Snapshot Recorded on ${ref}: ${message}`,
+                'View Snapshots'
+            ).then(selection => {
+                if (selection === 'View Snapshots') {
+                    vscode.commands.executeCommand('cursorGit.showShadowHistory');
+                }
+            });
+        }
+    }
+
+    // Undo a specific auto-commit - never whatever happens to be HEAD right now! 🎯
+    public async revertAutoCommit(gitManager: GitManager, hash: string): Promise<void> {
+        const choice = await vscode.window.showQuickPick([
+            { label: 'Soft reset', description: 'Drop the commit, keep its changes staged', strategy: 'soft' as RevertStrategy },
+            { label: 'Hard discard', description: 'Drop the commit and throw away its changes', strategy: 'hard' as RevertStrategy },
+            { label: 'Revert commit', description: 'Add a new commit that undoes it', strategy: 'revert' as RevertStrategy }
+        ], { placeHolder: `How should ${hash.substring(0, 7)} be reverted? - because sometimes we all make mistakes! 😅` });
+
+        if (!choice) {
+            return;
+        }
 
-        if (result === 'Yes') {
-            const success = await this.gitManager.revertLastCommit();
-            if (success) {
-                vscode.window.showInformationMessage('Last commit reverted successfully - because second chances are beautiful! 🌈');
-            } else {
-                vscode.window.showErrorMessage('Failed to revert last commit - because sometimes life just doesn\'t work out! 😢');
+        const result = await gitManager.revertAutoCommit(hash, choice.strategy);
+        if (result.success) {
+            const fallback = result.fallbackReason ? ` (used git revert because ${result.fallbackReason})` : '';
+            vscode.window.showInformationMessage(`Commit ${hash.substring(0, 7)} reverted${fallback} - because second chances are beautiful! 🌈`);
+            if (hash === this.lastCommitHash) {
+                this.lastCommitHash = null;
+                this.lastCommitManager = null;
             }
+        } else {
+            vscode.window.showErrorMessage(`Failed to revert ${hash.substring(0, 7)}: ${result.error} - because sometimes life just doesn't work out! 😢`);
         }
     }
 
     // Public method to manually set AI flag (for testing or external triggers)
     // Because sometimes you just need to take control! 🎮
-    public setAIFlag(isAI: boolean): void {
-        this.isHumanTyping = !isAI;
-        console.log(`AI flag manually set to: ${isAI} - because you\'re the boss! 👑`);
+    public setAIFlag(fileUri: string, isAI: boolean): void {
+        const state = this.getDocumentState(fileUri);
+        state.isHumanTyping = !isAI;
+        state.detectionConfidence = isAI ? 1 : null;
+        console.log(`AI flag manually set to: ${isAI} for ${fileUri} - because you\'re the boss! 👑`);
     }
 
-    // Public method to get current typing status
+    // Public method to get the typing status of every open document
     // Because knowledge is power! 💪
-    public getTypingStatus(): {isHuman: boolean, lastUserAction: number} {
-        return {
-            isHuman: this.isHumanTyping,
-            lastUserAction: this.lastUserAction
-        };
+    public getTypingStatus(): DocumentTypingStatus[] {
+        return vscode.workspace.textDocuments
+            .filter(document => document.uri.scheme === 'file' || document.uri.scheme === 'untitled')
+            .map(document => {
+                const fileUri = document.uri.toString();
+                const state = this.documentStates.get(fileUri);
+                return {
+                    fileUri,
+                    isHuman: state?.isHumanTyping ?? null,
+                    confidence: state?.detectionConfidence ?? null,
+                    wpm: state?.lastWPM ?? null,
+                    lastUserAction: state?.lastUserAction ?? 0,
+                    pendingCommit: this.pendingChanges.has(fileUri)
+                };
+            });
     }
 
     dispose(): void {
+        if (this.commitTimer) {
+            clearTimeout(this.commitTimer);
+        }
+        if (this.commitIntervalTimer) {
+            clearInterval(this.commitIntervalTimer);
+        }
+        for (const root of [...this.aiSessions.keys()]) {
+            this.closeAISession(root);
+        }
         this.disposables.forEach(d => d.dispose());
-        this.finalizeCurrentSession();
+        this.commitEmitter.dispose();
+        this.hookOutput.dispose();
+        this.documentStates.clear();
     }
 }
\ No newline at end of file
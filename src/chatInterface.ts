@@ -1,13 +1,14 @@
 import * as vscode from 'vscode';
-import { GitManager } from './gitManager';
+import { CommitResult } from './gitManager';
+import { RepositoryRegistry } from './repositoryRegistry';
 
 export class ChatInterface {
-    private gitManager: GitManager;
+    private repositories: RepositoryRegistry;
     private panel: vscode.WebviewPanel | undefined;
     private messages: ChatMessage[] = [];
 
-    constructor(gitManager: GitManager) {
-        this.gitManager = gitManager;
+    constructor(repositories: RepositoryRegistry) {
+        this.repositories = repositories;
     }
 
     async showChatPanel(): Promise<void> {
@@ -81,25 +82,43 @@ export class ChatInterface {
                 isTyping: true
             });
 
-            const result = await this.gitManager.stageAndCommit(message);
+            const managers = this.repositories.getManagers();
+            const results: Array<{repositoryName: string, result: CommitResult}> = [];
+            for (const manager of managers) {
+                results.push({
+                    repositoryName: this.repositories.getRepositoryName(manager),
+                    result: await manager.stageAndCommit(message)
+                });
+            }
             
             // Remove typing indicator
             this.messages = this.messages.filter(m => !m.isTyping);
             
-            if (result.success) {
-                this.addMessage({
-                    type: 'assistant',
-                    content: `Successfully committed: "${result.message}"`,
-                    timestamp: new Date(),
-                    commitHash: result.hash
-                });
-            } else {
+            const attempted = results.filter(r => r.result.success || r.result.error !== 'No modified files');
+            if (attempted.length === 0) {
                 this.addMessage({
                     type: 'assistant',
-                    content: `Commit failed: ${result.error}`,
+                    content: 'Commit failed: No changes to commit',
                     timestamp: new Date()
                 });
             }
+
+            for (const { repositoryName, result } of attempted) {
+                if (result.success) {
+                    this.addMessage({
+                        type: 'assistant',
+                        content: `Successfully committed in ${repositoryName}: "${result.message}"`,
+                        timestamp: new Date(),
+                        commitHash: result.hash
+                    });
+                } else {
+                    this.addMessage({
+                        type: 'assistant',
+                        content: `Commit failed in ${repositoryName}: ${result.error}`,
+                        timestamp: new Date()
+                    });
+                }
+            }
         } catch (error) {
             this.messages = this.messages.filter(m => !m.isTyping);
             this.addMessage({
@@ -112,27 +131,29 @@ export class ChatInterface {
 
     private async handleStatusRequest(): Promise<void> {
         try {
-            const status = await this.gitManager.getStatus();
-            const modifiedFiles = await this.gitManager.getModifiedFiles();
-            
-            let statusMessage = `Git Status:\n`;
-            statusMessage += `• Modified: ${status.modified.length}\n`;
-            statusMessage += `• Created: ${status.created.length}\n`;
-            statusMessage += `• Deleted: ${status.deleted.length}\n`;
-            statusMessage += `• Staged: ${status.staged.length}\n`;
-            
-            if (modifiedFiles.length > 0) {
-                statusMessage += `\nModified Files:\n`;
-                modifiedFiles.forEach(file => {
-                    statusMessage += `• ${file}\n`;
+            for (const manager of this.repositories.getManagers()) {
+                const status = await manager.getStatus();
+                const modifiedFiles = await manager.getModifiedFiles();
+                
+                let statusMessage = `Git Status (${this.repositories.getRepositoryName(manager)}):\n`;
+                statusMessage += `• Modified: ${status.modified.length}\n`;
+                statusMessage += `• Created: ${status.created.length}\n`;
+                statusMessage += `• Deleted: ${status.deleted.length}\n`;
+                statusMessage += `• Staged: ${status.staged.length}\n`;
+                
+                if (modifiedFiles.length > 0) {
+                    statusMessage += `\nModified Files:\n`;
+                    modifiedFiles.forEach(file => {
+                        statusMessage += `• ${file}\n`;
+                    });
+                }
+
+                this.addMessage({
+                    type: 'assistant',
+                    content: statusMessage,
+                    timestamp: new Date()
                 });
             }
-
-            this.addMessage({
-                type: 'assistant',
-                content: statusMessage,
-                timestamp: new Date()
-            });
         } catch (error) {
             this.addMessage({
                 type: 'assistant',
@@ -144,19 +165,22 @@ export class ChatInterface {
 
     private async handleHistoryRequest(): Promise<void> {
         try {
-            const lastCommit = await this.gitManager.getLastCommit();
-            if (lastCommit) {
-                this.addMessage({
-                    type: 'assistant',
-                    content: `Last commit: ${lastCommit}`,
-                    timestamp: new Date()
-                });
-            } else {
-                this.addMessage({
-                    type: 'assistant',
-                    content: 'No commits found in this repository',
-                    timestamp: new Date()
-                });
+            for (const manager of this.repositories.getManagers()) {
+                const repositoryName = this.repositories.getRepositoryName(manager);
+                const lastCommit = await manager.getLastCommit();
+                if (lastCommit) {
+                    this.addMessage({
+                        type: 'assistant',
+                        content: `Last commit in ${repositoryName}: ${lastCommit}`,
+                        timestamp: new Date()
+                    });
+                } else {
+                    this.addMessage({
+                        type: 'assistant',
+                        content: `No commits found in ${repositoryName}`,
+                        timestamp: new Date()
+                    });
+                }
             }
         } catch (error) {
             this.addMessage({
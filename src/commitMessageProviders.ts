@@ -0,0 +1,250 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { AIProvenance } from './gitManager';
+
+export interface CommitMessageContext {
+    files: string[];
+    diff: string;
+    provenance?: AIProvenance;
+    temporaryIndex?: boolean; // the diff is staged in a temporary index, not the user's
+}
+
+export interface CommitMessageProvider {
+    readonly id: string;
+    /** Set when the provider reads the staged changes itself instead of using `context.diff`. */
+    readonly readsRealIndex?: boolean;
+    /** `signal` is aborted when the provider times out, so pending requests can be cancelled. */
+    generate(context: CommitMessageContext, signal?: AbortSignal): Promise<string>;
+}
+
+const DEFAULT_TIMEOUTS: Record<string, number> = {
+    cursor: 15000,
+    openai: 30000
+};
+
+const MAX_CACHE_ENTRIES = 100;
+
+const SYSTEM_PROMPT =
+    'You write git commit messages in the Conventional Commits format. ' +
+    'Reply with only the commit message: a subject line under 72 characters, ' +
+    'optionally followed by a blank line and a short body.';
+
+/** Uses Cursor's built-in `cursor.generateGitCommitMessage` command on the staged changes. */
+export class CursorCommandProvider implements CommitMessageProvider {
+    readonly id = 'cursor';
+    readonly readsRealIndex = true;
+
+    async generate(context: CommitMessageContext): Promise<string> {
+        if (!context.diff.trim()) {
+            throw new Error('No staged changes found for AI analysis. Please ensure files are staged and contain changes.');
+        }
+
+        try {
+            const result = await vscode.commands.executeCommand('cursor.generateGitCommitMessage');
+            if (typeof result === 'string' && result.trim()) {
+                return result.trim();
+            }
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('No diffs found')) {
+                throw new Error('No staged changes found for AI analysis. Please ensure files are staged and contain changes.');
+            }
+            throw error;
+        }
+
+        // If the command doesn't return a string, it might not be available
+        throw new Error('Cursor AI command not available or returned no message');
+    }
+}
+
+/**
+ * Calls an OpenAI-compatible `/chat/completions` endpoint, such as a local
+ * llama.cpp or Ollama server.
+ */
+export class OpenAICompatibleProvider implements CommitMessageProvider {
+    readonly id = 'openai';
+
+    async generate(context: CommitMessageContext, signal?: AbortSignal): Promise<string> {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const endpoint = config.get<string>('openAI.endpoint', 'http://localhost:11434/v1').replace(/\/+$/, '');
+        const model = config.get<string>('openAI.model', 'llama3');
+        const apiKey = config.get<string>('openAI.apiKey', '');
+
+        const body = JSON.stringify({
+            model,
+            temperature: 0.2,
+            max_tokens: 256,
+            messages: [
+                { role: 'system', content: SYSTEM_PROMPT },
+                { role: 'user', content: `Files:\n${context.files.join('\n')}\n\nDiff:\n${context.diff}` }
+            ]
+        });
+
+        const response = await this.post(`${endpoint}/chat/completions`, body, apiKey, signal);
+        const message = JSON.parse(response)?.choices?.[0]?.message?.content;
+        if (typeof message !== 'string' || !message.trim()) {
+            throw new Error('Endpoint returned no message');
+        }
+        // Some models wrap the answer in a code fence
+        return message.trim().replace(/^```[a-z]*\n?/, '').replace(/\n?```$/, '').trim();
+    }
+
+    private post(url: string, body: string, apiKey: string, signal?: AbortSignal): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const target = new URL(url);
+            const client = target.protocol === 'https:' ? https : http;
+            const headers: Record<string, string | number> = {
+                'Content-Type': 'application/json',
+                'Content-Length': Buffer.byteLength(body)
+            };
+            if (apiKey) {
+                headers['Authorization'] = `Bearer ${apiKey}`;
+            }
+
+            // Aborting destroys the socket, so a timed-out request doesn't linger
+            const request = client.request(target, { method: 'POST', headers, signal }, response => {
+                const chunks: Buffer[] = [];
+                response.on('data', chunk => chunks.push(chunk));
+                response.on('end', () => {
+                    const text = Buffer.concat(chunks).toString('utf8');
+                    if (response.statusCode && response.statusCode >= 400) {
+                        reject(new Error(`Endpoint responded with ${response.statusCode}: ${text.substring(0, 200)}`));
+                    } else {
+                        resolve(text);
+                    }
+                });
+            });
+            request.on('error', reject);
+            request.end(body);
+        });
+    }
+}
+
+/** Offline fallback that never fails, and is never timed out since nothing else is left to try. */
+export class HeuristicProvider implements CommitMessageProvider {
+    readonly id = 'heuristic';
+    private generateHeuristic: (context: CommitMessageContext) => Promise<string>;
+
+    constructor(generateHeuristic: (context: CommitMessageContext) => Promise<string>) {
+        this.generateHeuristic = generateHeuristic;
+    }
+
+    generate(context: CommitMessageContext): Promise<string> {
+        return this.generateHeuristic(context);
+    }
+}
+
+/**
+ * Runs the configured providers in order until one produces a message. Each
+ * AI provider gets its own timeout, the diff is truncated to the token
+ * budget, and results are cached by diff hash.
+ */
+export class CommitMessageGenerator {
+    private static cache: Map<string, string> = new Map(); // diff hash -> message
+    private providers: Map<string, CommitMessageProvider>;
+
+    constructor(providers: CommitMessageProvider[]) {
+        this.providers = new Map(providers.map(provider => [provider.id, provider]));
+    }
+
+    async generate(context: CommitMessageContext): Promise<string> {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const maxDiffTokens = config.get<number>('maxDiffTokens', 4000);
+        const timeouts = { ...DEFAULT_TIMEOUTS, ...config.get<Record<string, number>>('messageProviderTimeouts', {}) };
+        const diff = CommitMessageGenerator.truncateDiff(context.diff, maxDiffTokens);
+
+        const cacheKey = diff.trim() ? crypto.createHash('sha256').update(diff).digest('hex') : null;
+        const cached = cacheKey ? CommitMessageGenerator.cache.get(cacheKey) : undefined;
+        if (cached) {
+            console.log('Using cached commit message for identical diff');
+            return cached;
+        }
+
+        for (const id of this.getChain()) {
+            const provider = this.providers.get(id);
+            if (!provider) {
+                console.warn(`Unknown commit message provider: ${id}`);
+                continue;
+            }
+            if (context.temporaryIndex && provider.readsRealIndex) {
+                // It would describe whatever else the user has staged, not this commit
+                console.log(`Skipping the ${id} provider for a commit from a temporary index`);
+                continue;
+            }
+
+            try {
+                const message = id === 'heuristic'
+                    ? await provider.generate({ ...context, diff })
+                    : await this.withTimeout(signal => provider.generate({ ...context, diff }, signal), timeouts[id] ?? 15000, id);
+                if (message.trim()) {
+                    console.log(`Commit message generated by ${id} provider`);
+                    // Heuristic output is cheap to recompute from the staged diff, so only model output is cached
+                    if (cacheKey && id !== 'heuristic') {
+                        this.remember(cacheKey, message.trim());
+                    }
+                    return message.trim();
+                }
+            } catch (error) {
+                console.error(`Commit message provider ${id} failed:`, error);
+            }
+        }
+
+        throw new Error('No commit message provider produced a message');
+    }
+
+    private getChain(): string[] {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const useCursorAI = config.get<boolean>('useCursorAI', true);
+        const chain = config.get<string[]>('messageProviders', ['cursor', 'heuristic'])
+            .filter(id => useCursorAI || id !== 'cursor');
+
+        // The heuristic always works, so it's the last resort even when not listed
+        return chain.includes('heuristic') ? chain : [...chain, 'heuristic'];
+    }
+
+    private withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, id: string): Promise<T> {
+        const controller = new AbortController();
+        let timer: NodeJS.Timeout;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                controller.abort();
+                reject(new Error(`${id} provider timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
+        });
+        return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+    }
+
+    private remember(key: string, message: string): void {
+        CommitMessageGenerator.cache.set(key, message);
+        if (CommitMessageGenerator.cache.size > MAX_CACHE_ENTRIES) {
+            const oldest = CommitMessageGenerator.cache.keys().next().value;
+            if (oldest !== undefined) {
+                CommitMessageGenerator.cache.delete(oldest);
+            }
+        }
+    }
+
+    /**
+     * Shrinks a diff to roughly `maxTokens` (estimated at 4 characters per
+     * token), giving every file an equal share so one huge file can't crowd
+     * out the rest.
+     */
+    static truncateDiff(diff: string, maxTokens: number): string {
+        const maxChars = maxTokens * 4;
+        if (diff.length <= maxChars) {
+            return diff;
+        }
+
+        const sections = diff.split(/(?=^diff --git )/m);
+        const share = Math.floor(maxChars / sections.length);
+        return sections.map(section => {
+            if (section.length <= share) {
+                return section;
+            }
+            const kept = section.substring(0, share);
+            const droppedLines = section.substring(share).split('\n').length;
+            return `${kept.substring(0, kept.lastIndexOf('\n') + 1)}[... ${droppedLines} lines truncated]\n`;
+        }).join('');
+    }
+}
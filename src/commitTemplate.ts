@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { Glob } from './glob';
+
+export const TEMPLATE_TOKENS = [
+    'type', 'scope', 'description', 'body', 'files', 'fileCount', 'branch', 'ticket', 'wpm', 'confidence'
+] as const;
+
+export type TemplateToken = typeof TEMPLATE_TOKENS[number];
+export type TemplateValues = Record<TemplateToken, string>;
+
+export class TemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateError';
+    }
+}
+
+type TemplateNode =
+    | { kind: 'text', text: string }
+    | { kind: 'token', name: TemplateToken }
+    | { kind: 'section', name: TemplateToken, children: TemplateNode[] };
+
+/** The shipped `commitMessageTemplate`: the inferred type and scope, then the description. */
+export const DEFAULT_COMMIT_TEMPLATE = '{type}{?scope}({scope}){/scope}: {description}';
+
+const TAG_PATTERN = /\{([?/]?)([A-Za-z]+)\}/g;
+const CONVENTIONAL_PREFIX = /^(feat|fix|docs|style|refactor|test|chore|build|ci|perf|revert)(\(|!?:)/;
+
+/**
+ * A parsed `commitMessageTemplate`. Placeholders are written `{token}` and
+ * optional sections `{?token}...{/token}`, which render only when the token
+ * has a value. Newlines in the template become the subject/body split.
+ */
+export class CommitTemplate {
+    private nodes: TemplateNode[];
+    readonly source: string;
+
+    private constructor(source: string, nodes: TemplateNode[]) {
+        this.source = source;
+        this.nodes = nodes;
+    }
+
+    static parse(source: string): CommitTemplate {
+        if (!source.trim()) {
+            throw new TemplateError('Template is empty');
+        }
+
+        const root: TemplateNode[] = [];
+        const stack: Array<{name: TemplateToken, children: TemplateNode[]}> = [];
+        const current = () => stack.length > 0 ? stack[stack.length - 1].children : root;
+        let lastIndex = 0;
+
+        for (const match of source.matchAll(TAG_PATTERN)) {
+            const [tag, marker, name] = match;
+            const index = match.index ?? 0;
+            if (index > lastIndex) {
+                current().push({ kind: 'text', text: source.substring(lastIndex, index) });
+            }
+            lastIndex = index + tag.length;
+
+            if (!CommitTemplate.isToken(name)) {
+                throw new TemplateError(`Unknown placeholder ${tag} at position ${index}. Available: ${TEMPLATE_TOKENS.map(t => `{${t}}`).join(', ')}`);
+            }
+
+            if (marker === '?') {
+                stack.push({ name, children: [] });
+            } else if (marker === '/') {
+                const section = stack.pop();
+                if (!section || section.name !== name) {
+                    throw new TemplateError(`${tag} at position ${index} does not close ${section ? `{?${section.name}}` : 'an open section'}`);
+                }
+                current().push({ kind: 'section', name: section.name, children: section.children });
+            } else {
+                current().push({ kind: 'token', name });
+            }
+        }
+
+        if (stack.length > 0) {
+            throw new TemplateError(`Section {?${stack[stack.length - 1].name}} is never closed with {/${stack[stack.length - 1].name}}`);
+        }
+        if (lastIndex < source.length) {
+            root.push({ kind: 'text', text: source.substring(lastIndex) });
+        }
+        return new CommitTemplate(source, root);
+    }
+
+    /** Returns a readable error for an invalid template, or undefined when it parses. */
+    static validate(source: string): string | undefined {
+        try {
+            CommitTemplate.parse(source);
+            return undefined;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    /**
+     * Checks every template-related setting so mistakes surface when the
+     * settings load rather than on the next auto-commit.
+     */
+    static validateSettings(config: vscode.WorkspaceConfiguration): string[] {
+        const errors: string[] = [];
+        const template = config.get<string>('commitMessageTemplate', DEFAULT_COMMIT_TEMPLATE);
+        const templateError = CommitTemplate.validate(template);
+        if (templateError) {
+            errors.push(`commitMessageTemplate: ${templateError}`);
+        }
+
+        const overrides = config.get<Record<string, string>>('commitMessageTemplateOverrides', {});
+        for (const [pattern, override] of Object.entries(overrides)) {
+            const overrideError = typeof override === 'string' ? CommitTemplate.validate(override) : 'Template must be a string';
+            if (overrideError) {
+                errors.push(`commitMessageTemplateOverrides["${pattern}"]: ${overrideError}`);
+            }
+        }
+
+        const ticketPattern = config.get<string>('ticketPattern', '[A-Z][A-Z0-9]+-\\d+');
+        try {
+            new RegExp(ticketPattern);
+        } catch (error) {
+            errors.push(`ticketPattern: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return errors;
+    }
+
+    /**
+     * Picks the template for `files`: the first override whose glob matches
+     * every file, otherwise `commitMessageTemplate`.
+     */
+    static forFiles(config: vscode.WorkspaceConfiguration, files: string[]): CommitTemplate {
+        const overrides = config.get<Record<string, string>>('commitMessageTemplateOverrides', {});
+        const normalized = files.map(file => file.replace(/\\/g, '/'));
+        for (const [pattern, override] of Object.entries(overrides)) {
+            const regex = Glob.toRegExp(pattern, { matchAnyDepth: true });
+            if (normalized.length > 0 && normalized.every(file => regex.test(file))) {
+                return CommitTemplate.parse(override);
+            }
+        }
+        return CommitTemplate.parse(config.get<string>('commitMessageTemplate', DEFAULT_COMMIT_TEMPLATE));
+    }
+
+    /** Extracts the ticket id from a branch name; the first capture group wins when there is one. */
+    static extractTicket(branch: string, pattern: string): string {
+        try {
+            const match = branch.match(new RegExp(pattern));
+            return match ? (match[1] ?? match[0]) : '';
+        } catch (error) {
+            console.error('Invalid ticketPattern:', error);
+            return '';
+        }
+    }
+
+    /** True when the first line already yields a conventional `type(scope):` prefix. */
+    hasTypePrefix(): boolean {
+        const subject = this.source.split('\n')[0];
+        return subject.includes('{type}') || CONVENTIONAL_PREFIX.test(subject);
+    }
+
+    uses(token: TemplateToken): boolean {
+        const visit = (nodes: TemplateNode[]): boolean => nodes.some(node =>
+            (node.kind !== 'text' && node.name === token) || (node.kind === 'section' && visit(node.children))
+        );
+        return visit(this.nodes);
+    }
+
+    render(values: TemplateValues): string {
+        const renderNodes = (nodes: TemplateNode[]): string => nodes.map(node => {
+            switch (node.kind) {
+                case 'text':
+                    return node.text;
+                case 'token':
+                    return values[node.name];
+                case 'section':
+                    return values[node.name] ? renderNodes(node.children) : '';
+            }
+        }).join('');
+
+        // Skipped sections leave blank lines and trailing spaces behind
+        return renderNodes(this.nodes)
+            .split('\n')
+            .map(line => line.trimEnd())
+            .join('\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+
+    private static isToken(name: string): name is TemplateToken {
+        return (TEMPLATE_TOKENS as readonly string[]).includes(name);
+    }
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { CommitSummary, GitManager } from './gitManager';
+import { RepositoryRegistry } from './repositoryRegistry';
+
+// Auto-commits closer together than this belong to the same AI session
+const SESSION_GAP_MS = 15 * 60 * 1000;
+const MAX_COMMITS = 200;
+
+export type TimelineNode =
+    | { kind: 'repository', manager: GitManager }
+    | { kind: 'day', manager: GitManager, label: string, commits: CommitSummary[] }
+    | { kind: 'session', manager: GitManager, commits: CommitSummary[] }
+    | { kind: 'commit', manager: GitManager, commit: CommitSummary }
+    | { kind: 'file', manager: GitManager, commit: CommitSummary, status: string, path: string };
+
+/**
+ * Backs the `cursorGitView` explorer view: recent auto-commits grouped by day
+ * and then by AI session, with the files each commit touched.
+ */
+export class CommitTimelineProvider implements vscode.TreeDataProvider<TimelineNode> {
+    private repositories: RepositoryRegistry;
+    private changeEmitter = new vscode.EventEmitter<TimelineNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(repositories: RepositoryRegistry) {
+        this.repositories = repositories;
+    }
+
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: TimelineNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'repository': {
+                const item = new vscode.TreeItem(this.repositories.getRepositoryName(node.manager), vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('repo');
+                item.contextValue = 'repository';
+                return item;
+            }
+            case 'day': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.description = `${node.commits.length} commit${node.commits.length === 1 ? '' : 's'}`;
+                item.iconPath = new vscode.ThemeIcon('calendar');
+                item.contextValue = 'day';
+                return item;
+            }
+            case 'session': {
+                const newest = new Date(node.commits[0].date);
+                const oldest = new Date(node.commits[node.commits.length - 1].date);
+                const item = new vscode.TreeItem(
+                    `AI session ${oldest.toLocaleTimeString()} – ${newest.toLocaleTimeString()}`,
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.description = `${node.commits.length} commit${node.commits.length === 1 ? '' : 's'}`;
+                item.iconPath = new vscode.ThemeIcon('hubot');
+                item.contextValue = 'session';
+                return item;
+            }
+            case 'commit': {
+                const item = new vscode.TreeItem(node.commit.message, vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = `${node.commit.hash.substring(0, 7)} • ${new Date(node.commit.date).toLocaleTimeString()}`;
+                item.tooltip = `${node.commit.message}\n${node.commit.hash}\n${node.commit.author}\n${new Date(node.commit.date).toLocaleString()}`;
+                item.iconPath = new vscode.ThemeIcon('git-commit');
+                item.contextValue = 'autoCommit';
+                return item;
+            }
+            case 'file': {
+                const item = new vscode.TreeItem(node.path, vscode.TreeItemCollapsibleState.None);
+                item.description = node.status;
+                item.iconPath = vscode.ThemeIcon.File;
+                item.contextValue = 'autoCommitFile';
+                item.command = {
+                    command: 'cursorGit.timeline.openDiff',
+                    title: 'Open Diff',
+                    arguments: [node]
+                };
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: TimelineNode): Promise<TimelineNode[]> {
+        if (!node) {
+            const managers = this.repositories.getManagers();
+            if (managers.length === 1) {
+                return this.getDays(managers[0]);
+            }
+            return managers.map(manager => ({ kind: 'repository', manager }));
+        }
+
+        switch (node.kind) {
+            case 'repository':
+                return this.getDays(node.manager);
+            case 'day':
+                return this.getSessions(node.manager, node.commits);
+            case 'session':
+                return node.commits.map(commit => ({ kind: 'commit', manager: node.manager, commit }));
+            case 'commit': {
+                const files = await node.manager.getCommitFiles(node.commit.hash);
+                return files.map(file => ({ kind: 'file', manager: node.manager, commit: node.commit, ...file }));
+            }
+            default:
+                return [];
+        }
+    }
+
+    private async getDays(manager: GitManager): Promise<TimelineNode[]> {
+        const commits = (await manager.getRecentCommits(MAX_COMMITS)).filter(commit => commit.isAI);
+        const days = new Map<string, CommitSummary[]>();
+        for (const commit of commits) {
+            const label = new Date(commit.date).toLocaleDateString();
+            const dayCommits = days.get(label) || [];
+            dayCommits.push(commit);
+            days.set(label, dayCommits);
+        }
+        return [...days.entries()].map(([label, dayCommits]) => ({ kind: 'day', manager, label, commits: dayCommits }));
+    }
+
+    private getSessions(manager: GitManager, commits: CommitSummary[]): TimelineNode[] {
+        const sessions: CommitSummary[][] = [];
+        let previous: CommitSummary | null = null;
+        for (const commit of commits) {
+            const gap = previous ? new Date(previous.date).getTime() - new Date(commit.date).getTime() : Infinity;
+            if (gap > SESSION_GAP_MS) {
+                sessions.push([]);
+            }
+            sessions[sessions.length - 1].push(commit);
+            previous = commit;
+        }
+        return sessions.map(sessionCommits => ({ kind: 'session', manager, commits: sessionCommits }));
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,389 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+
+// [level, applicable, value] - level 0 disables, 1 warns, 2 errors
+export type CommitlintRule = [number, 'always' | 'never', unknown?];
+export type CommitlintRules = Record<string, CommitlintRule>;
+
+export interface CommitlintViolation {
+    rule: string;
+    level: number;
+    message: string;
+}
+
+interface ParsedMessage {
+    type: string;
+    scope: string;
+    breaking: boolean;
+    subject: string;
+    body: string;
+}
+
+const CONFIG_FILES = [
+    '.commitlintrc',
+    '.commitlintrc.json',
+    '.commitlintrc.yaml',
+    '.commitlintrc.yml',
+    '.commitlintrc.js',
+    '.commitlintrc.cjs',
+    'commitlint.config.js',
+    'commitlint.config.cjs'
+];
+
+const HEADER_PATTERN = /^(\w[\w-]*)(?:\(([^)]*)\))?(!)?: ?(.*)$/;
+
+// The rules of @commitlint/config-conventional, used when an `extends` can't be loaded
+const CONVENTIONAL_RULES: CommitlintRules = {
+    'body-leading-blank': [1, 'always'],
+    'body-max-line-length': [2, 'always', 100],
+    'header-max-length': [2, 'always', 100],
+    'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+    'subject-empty': [2, 'never'],
+    'subject-full-stop': [2, 'never', '.'],
+    'type-case': [2, 'always', 'lower-case'],
+    'type-empty': [2, 'never'],
+    'type-enum': [2, 'always', ['build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test']]
+};
+
+const TYPE_SYNONYMS: Record<string, string> = {
+    feature: 'feat',
+    features: 'feat',
+    add: 'feat',
+    bugfix: 'fix',
+    hotfix: 'fix',
+    doc: 'docs',
+    tests: 'test',
+    refactoring: 'refactor',
+    performance: 'perf',
+    styles: 'style'
+};
+
+/**
+ * Loads the workspace's commitlint configuration (`.commitlintrc*`,
+ * `commitlint.config.js` or the `commitlint` key in `package.json`) and checks
+ * messages against the header, type, scope, subject and body rules that
+ * matter for generated messages. Failing messages can be repaired in place.
+ */
+export class CommitlintValidator {
+    private root: string;
+    private cachedSignature: string | null = null;
+    private cachedRules: CommitlintRules | null = null;
+
+    constructor(root: string) {
+        this.root = root;
+    }
+
+    /** Returns the effective rules, or null when the repository doesn't use commitlint. */
+    async loadRules(): Promise<CommitlintRules | null> {
+        const configFile = CONFIG_FILES.find(file => fs.existsSync(path.join(this.root, file)));
+        const packageJsonPath = path.join(this.root, 'package.json');
+        const packageConfig = !configFile && fs.existsSync(packageJsonPath)
+            ? this.readPackageConfig(packageJsonPath)
+            : undefined;
+        if (!configFile && !packageConfig) {
+            return null;
+        }
+
+        const signature = configFile
+            ? `${configFile}:${fs.statSync(path.join(this.root, configFile)).mtimeMs}`
+            : `package.json:${JSON.stringify(packageConfig)}`;
+        if (signature === this.cachedSignature) {
+            return this.cachedRules;
+        }
+
+        let config: unknown;
+        try {
+            config = configFile ? this.readConfigFile(configFile) : packageConfig;
+        } catch (error) {
+            console.error(`Error loading commitlint config ${configFile}, using conventional rules:`, error);
+            config = { extends: ['@commitlint/config-conventional'] };
+        }
+
+        this.cachedSignature = signature;
+        this.cachedRules = await this.resolveRules(config, 0);
+        return this.cachedRules;
+    }
+
+    validate(message: string, rules: CommitlintRules): CommitlintViolation[] {
+        const violations: CommitlintViolation[] = [];
+        const header = message.split('\n')[0];
+        const parsed = CommitlintValidator.parse(message);
+        const check = (name: string, test: (applicable: 'always' | 'never', value: unknown) => string | null) => {
+            const rule = rules[name];
+            if (!rule || rule[0] === 0) {
+                return;
+            }
+            const problem = test(rule[1] || 'always', rule[2]);
+            if (problem) {
+                violations.push({ rule: name, level: rule[0], message: problem });
+            }
+        };
+
+        check('header-max-length', (_, max) => typeof max === 'number' && header.length > max
+            ? `header is ${header.length} characters, longer than ${max}` : null);
+        check('type-empty', applicable => (applicable === 'never') === !parsed.type
+            ? (parsed.type ? 'type must be empty' : 'type may not be empty') : null);
+        check('type-enum', (applicable, types) => parsed.type && Array.isArray(types) && (applicable === 'always') !== types.includes(parsed.type)
+            ? `type "${parsed.type}" must ${applicable === 'never' ? 'not ' : ''}be one of [${types.join(', ')}]` : null);
+        check('type-case', (applicable, cases) => parsed.type && !CommitlintValidator.matchesCase(parsed.type, applicable, cases)
+            ? `type must ${applicable === 'never' ? 'not ' : ''}be ${CommitlintValidator.describeCases(cases)}` : null);
+        check('scope-enum', (applicable, scopes) => {
+            const unknown = parsed.scope && Array.isArray(scopes) && scopes.length > 0
+                ? parsed.scope.split(/[,/]/).filter(s => (applicable === 'always') !== scopes.includes(s.trim()))
+                : [];
+            return unknown.length > 0 ? `scope "${unknown.join(', ')}" must ${applicable === 'never' ? 'not ' : ''}be one of [${(scopes as string[]).join(', ')}]` : null;
+        });
+        check('scope-case', (applicable, cases) => parsed.scope && parsed.scope !== '*' && !CommitlintValidator.matchesCase(parsed.scope, applicable, cases)
+            ? `scope must ${applicable === 'never' ? 'not ' : ''}be ${CommitlintValidator.describeCases(cases)}` : null);
+        check('subject-empty', applicable => (applicable === 'never') === !parsed.subject
+            ? (parsed.subject ? 'subject must be empty' : 'subject may not be empty') : null);
+        check('subject-case', (applicable, cases) => parsed.subject && !CommitlintValidator.matchesCase(parsed.subject, applicable, cases)
+            ? `subject must ${applicable === 'never' ? 'not ' : ''}be ${CommitlintValidator.describeCases(cases)}` : null);
+        check('subject-full-stop', (applicable, stop) => {
+            const endsWithStop = parsed.subject.endsWith(typeof stop === 'string' ? stop : '.');
+            return parsed.subject && (applicable === 'never') === endsWithStop
+                ? `subject must ${applicable === 'never' ? 'not ' : ''}end with "${stop ?? '.'}"` : null;
+        });
+        check('body-leading-blank', applicable => {
+            const lines = message.split('\n');
+            return lines.length > 1 && (applicable === 'always') !== (lines[1] === '')
+                ? `body must ${applicable === 'never' ? 'not ' : ''}have a leading blank line` : null;
+        });
+        check('body-max-line-length', (_, max) => typeof max === 'number' && parsed.body.split('\n').some(line => line.length > max)
+            ? `body has lines longer than ${max} characters` : null);
+
+        return violations;
+    }
+
+    /**
+     * Rewrites the parts of a message that break error-level rules: maps or
+     * replaces the type, drops unknown scopes, fixes case and full stops, and
+     * shortens the header and body lines. Rules it can't satisfy are left for
+     * `validate` to report.
+     */
+    repair(message: string, rules: CommitlintRules, fallbackType: string = 'feat'): string {
+        const parsed = CommitlintValidator.parse(message);
+        const rule = (name: string) => rules[name] && rules[name][0] > 0 ? rules[name] : undefined;
+
+        let type = parsed.type.toLowerCase();
+        let subject = parsed.subject || message.split('\n')[0].trim();
+        const typeEnum = rule('type-enum');
+        const allowedTypes = typeEnum && typeEnum[1] !== 'never' && Array.isArray(typeEnum[2]) ? typeEnum[2] as string[] : null;
+        if (!type || (allowedTypes && !allowedTypes.includes(type))) {
+            const candidates = [TYPE_SYNONYMS[type], fallbackType, 'chore', ...(allowedTypes || [])];
+            type = candidates.find(candidate => candidate && (!allowedTypes || allowedTypes.includes(candidate))) || type || fallbackType;
+        }
+
+        let scope = parsed.scope;
+        const scopeEnum = rule('scope-enum');
+        if (scope && scopeEnum && scopeEnum[1] !== 'never' && Array.isArray(scopeEnum[2]) && scopeEnum[2].length > 0) {
+            const allowedScopes = scopeEnum[2] as string[];
+            scope = scope.split(',').map(s => s.trim()).filter(s => allowedScopes.includes(s)).join(',');
+        }
+        if (scope && rule('scope-case')) {
+            scope = scope.toLowerCase();
+        }
+
+        const subjectCase = rule('subject-case');
+        if (subjectCase && subject && !CommitlintValidator.matchesCase(subject, subjectCase[1], subjectCase[2])) {
+            subject = subjectCase[1] === 'always' && CommitlintValidator.caseList(subjectCase[2]).includes('lower-case')
+                ? subject.toLowerCase()
+                : subject.charAt(0).toLowerCase() + subject.slice(1);
+        }
+        if (rule('subject-full-stop')?.[1] !== 'always') {
+            subject = subject.replace(/[.\s]+$/, '');
+        }
+        if (!subject) {
+            subject = 'update files';
+        }
+
+        const prefix = `${type}${scope ? `(${scope})` : ''}${parsed.breaking ? '!' : ''}: `;
+        const maxHeader = rule('header-max-length')?.[2];
+        if (typeof maxHeader === 'number' && prefix.length + subject.length > maxHeader) {
+            // Drop trailing detail like "(7 files)" first, then cut at a word boundary
+            subject = subject.replace(/\s*\([^)]*\)$/, '');
+            if (prefix.length + subject.length > maxHeader) {
+                const room = Math.max(maxHeader - prefix.length, 1);
+                const cut = subject.substring(0, room + 1);
+                subject = (cut.lastIndexOf(' ') > room / 2 ? cut.substring(0, cut.lastIndexOf(' ')) : subject.substring(0, room))
+                    .replace(/(\s+(a|an|and|for|in|of|the|to|with))+$/i, '')
+                    .trimEnd();
+            }
+        }
+
+        let body = parsed.body;
+        const maxBodyLine = rule('body-max-line-length')?.[2];
+        if (body && typeof maxBodyLine === 'number') {
+            body = body.split('\n').flatMap(line => CommitlintValidator.wrap(line, maxBodyLine)).join('\n');
+        }
+
+        return body ? `${prefix}${subject}\n\n${body}` : `${prefix}${subject}`;
+    }
+
+    static parse(message: string): ParsedMessage {
+        const [header, ...rest] = message.split('\n');
+        const match = header.match(HEADER_PATTERN);
+        const body = rest.join('\n').replace(/^\n+/, '').trimEnd();
+        return match
+            ? { type: match[1], scope: match[2] || '', breaking: !!match[3], subject: match[4].trim(), body }
+            : { type: '', scope: '', breaking: false, subject: '', body };
+    }
+
+    private readPackageConfig(packageJsonPath: string): unknown {
+        try {
+            return JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')).commitlint;
+        } catch (error) {
+            console.error('Error reading commitlint config from package.json:', error);
+            return undefined;
+        }
+    }
+
+    private readConfigFile(file: string): unknown {
+        const fullPath = path.join(this.root, file);
+        if (/\.c?js$/.test(file)) {
+            // Running workspace code is only acceptable in a trusted workspace
+            if (!vscode.workspace.isTrusted) {
+                throw new Error('workspace is not trusted');
+            }
+            const workspaceRequire = createRequire(fullPath);
+            delete workspaceRequire.cache[workspaceRequire.resolve(fullPath)];
+            return workspaceRequire(fullPath);
+        }
+
+        const content = fs.readFileSync(fullPath, 'utf8');
+        if (file.endsWith('.yaml') || file.endsWith('.yml') || !content.trim().startsWith('{')) {
+            return CommitlintValidator.parseYamlConfig(content);
+        }
+        return JSON.parse(content);
+    }
+
+    private async resolveRules(config: unknown, depth: number): Promise<CommitlintRules> {
+        const resolved = (config as { default?: unknown })?.default ?? config;
+        if (!resolved || typeof resolved !== 'object' || depth > 5) {
+            return {};
+        }
+
+        const { extends: extended, rules } = resolved as { extends?: string | string[], rules?: Record<string, unknown> };
+        let merged: CommitlintRules = {};
+        for (const name of Array.isArray(extended) ? extended : extended ? [extended] : []) {
+            merged = { ...merged, ...await this.loadShareableConfig(name, depth) };
+        }
+
+        for (const [name, value] of Object.entries(rules || {})) {
+            // Rules may be functions returning the tuple, possibly asynchronously
+            const rule = typeof value === 'function' ? await value() : value;
+            if (Array.isArray(rule)) {
+                merged[name] = rule as CommitlintRule;
+            }
+        }
+        return merged;
+    }
+
+    private async loadShareableConfig(name: string, depth: number): Promise<CommitlintRules> {
+        try {
+            if (!vscode.workspace.isTrusted) {
+                throw new Error('workspace is not trusted');
+            }
+            const workspaceRequire = createRequire(path.join(this.root, 'package.json'));
+            return await this.resolveRules(workspaceRequire(name), depth + 1);
+        } catch (error) {
+            if (/config-conventional|config-angular/.test(name)) {
+                return { ...CONVENTIONAL_RULES };
+            }
+            console.warn(`Could not load commitlint config "${name}":`, error);
+            return {};
+        }
+    }
+
+    /** Reads `extends` and flow-style `rules` from YAML without a YAML dependency. */
+    private static parseYamlConfig(content: string): unknown {
+        const config: { extends: string[], rules: Record<string, unknown> } = { extends: [], rules: {} };
+        let section: 'extends' | 'rules' | null = null;
+        for (const line of content.split('\n')) {
+            const topLevel = line.match(/^(\w+)\s*:\s*(.*)$/);
+            if (topLevel) {
+                section = topLevel[1] === 'extends' || topLevel[1] === 'rules' ? topLevel[1] : null;
+                if (section === 'extends' && topLevel[2].trim()) {
+                    config.extends.push(...CommitlintValidator.yamlList(topLevel[2]));
+                }
+                continue;
+            }
+            const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*$/);
+            const entry = line.match(/^\s+['"]?([\w-]+)['"]?\s*:\s*(\[.*\])\s*$/);
+            if (section === 'extends' && item) {
+                config.extends.push(item[1]);
+            } else if (section === 'rules' && entry) {
+                try {
+                    config.rules[entry[1]] = JSON.parse(entry[2].replace(/'/g, '"').replace(/(?<=[[,]\s*)([A-Za-z][\w.-]*)(?=\s*[,\]])/g, '"$1"'));
+                } catch (error) {
+                    console.warn(`Skipping commitlint rule ${entry[1]}: only single-line flow arrays are supported in YAML`);
+                }
+            }
+        }
+        return config;
+    }
+
+    private static yamlList(value: string): string[] {
+        return value.replace(/^\[|\]$/g, '').split(',').map(v => v.trim().replace(/^['"]|['"]$/g, '')).filter(v => v);
+    }
+
+    private static caseList(cases: unknown): string[] {
+        return Array.isArray(cases) ? cases.filter((c): c is string => typeof c === 'string') : typeof cases === 'string' ? [cases] : [];
+    }
+
+    private static describeCases(cases: unknown): string {
+        return CommitlintValidator.caseList(cases).join(' or ');
+    }
+
+    private static matchesCase(text: string, applicable: 'always' | 'never', cases: unknown): boolean {
+        const list = CommitlintValidator.caseList(cases);
+        if (list.length === 0) {
+            return true;
+        }
+        const matchesAny = list.some(c => CommitlintValidator.isCase(text, c));
+        return applicable === 'never' ? !matchesAny : matchesAny;
+    }
+
+    private static isCase(text: string, name: string): boolean {
+        switch (name) {
+            case 'lower-case':
+                return text === text.toLowerCase();
+            case 'upper-case':
+                return text === text.toUpperCase();
+            case 'sentence-case':
+                return /^[A-Z]/.test(text);
+            case 'start-case':
+                return text.split(/\s+/).every(word => /^[A-Z0-9]/.test(word));
+            case 'pascal-case':
+                return /^[A-Z][A-Za-z0-9]*$/.test(text);
+            case 'camel-case':
+                return /^[a-z][A-Za-z0-9]*$/.test(text);
+            case 'kebab-case':
+                return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text);
+            case 'snake-case':
+                return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text);
+            default:
+                return true;
+        }
+    }
+
+    private static wrap(line: string, max: number): string[] {
+        if (line.length <= max) {
+            return [line];
+        }
+        const lines: string[] = [];
+        let current = '';
+        for (const word of line.split(' ')) {
+            if (current && current.length + word.length + 1 > max) {
+                lines.push(current);
+                current = `  ${word}`;
+            } else {
+                current = current ? `${current} ${word}` : word;
+            }
+        }
+        lines.push(current);
+        return lines;
+    }
+}
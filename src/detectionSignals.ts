@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+
+/** What the signals get to see for one `onDidChangeTextDocument` event. */
+export interface DetectionContext {
+    event: vscode.TextDocumentChangeEvent;
+    timestamp: number;
+    isActiveDocument: boolean;
+    sessionWPM: number | null; // null until the typing session has enough characters to time
+    speedThreshold: number;
+    previousEditTimes: number[]; // earlier edits to this document within the session timeout, oldest first
+    recentFileCount: number; // documents edited within the session timeout, including this one
+}
+
+export interface DetectionSignal {
+    readonly id: string;
+    readonly defaultWeight: number;
+    /** Only consulted when the other signals leave the result close to a coin flip. */
+    readonly tieBreaker?: boolean;
+    /** How likely the event is AI-written, 0-1, or null when the signal has no opinion. */
+    score(context: DetectionContext): number | null;
+}
+
+export interface SignalScore {
+    id: string;
+    score: number;
+    weight: number;
+}
+
+export interface DetectionResult {
+    confidence: number; // 0 = surely human, 1 = surely AI
+    signals: SignalScore[];
+}
+
+/** Words per minute over the current typing session, compared with `typingSpeedThreshold`. */
+export class TypingSpeedSignal implements DetectionSignal {
+    readonly id = 'typingSpeed';
+    readonly defaultWeight = 3;
+
+    score(context: DetectionContext): number | null {
+        if (context.sessionWPM === null) {
+            return null;
+        }
+        // Right at the threshold is a coin flip, twice the threshold is a sure thing
+        const ratio = context.sessionWPM / context.speedThreshold;
+        return ratio > 1 ? Math.min(1, 0.5 + 0.5 * (ratio - 1)) : 0.5 * ratio;
+    }
+}
+
+/**
+ * Characters inserted by a single event; keystrokes add one or two, an apply
+ * adds hundreds. Log scale, so 10 characters score 0.5 and 100 score 1.
+ */
+export class BurstSizeSignal implements DetectionSignal {
+    readonly id = 'burstSize';
+    readonly defaultWeight = 2;
+
+    score(context: DetectionContext): number | null {
+        const inserted = context.event.contentChanges.reduce((total, change) => total + change.text.length, 0);
+        if (inserted === 0) {
+            return null;
+        }
+        return inserted <= 2 ? 0 : Math.min(1, Math.log10(inserted) / 2);
+    }
+}
+
+/**
+ * Different edits landing in several ranges at once, or in several files
+ * within moments. Rename refactors and search/replace do the same, so this
+ * only breaks ties.
+ */
+export class EditSpreadSignal implements DetectionSignal {
+    readonly id = 'editSpread';
+    readonly defaultWeight = 1.5;
+    readonly tieBreaker = true;
+
+    score(context: DetectionContext): number | null {
+        if (isUndoOrRedo(context)) {
+            return null;
+        }
+        const changes = context.event.contentChanges;
+        const scores: number[] = [];
+        // Multi-cursor typing inserts the same text everywhere, so only count distinct edits
+        const distinctTexts = new Set(changes.map(change => change.text)).size;
+        if (changes.length > 1 && distinctTexts > 1) {
+            scores.push(Math.min(1, 0.4 + 0.15 * (changes.length - 1)));
+        }
+        if (context.recentFileCount > 1) {
+            scores.push(Math.min(1, 0.5 + 0.25 * (context.recentFileCount - 1)));
+        }
+        return scores.length > 0 ? Math.max(...scores) : null;
+    }
+}
+
+/** `TextDocumentChangeReason`: undo and redo are always the user's doing. */
+export class ChangeReasonSignal implements DetectionSignal {
+    readonly id = 'changeReason';
+    readonly defaultWeight = 3;
+
+    score(context: DetectionContext): number | null {
+        return isUndoOrRedo(context) ? 0 : null;
+    }
+}
+
+/**
+ * Edits to a document that isn't in the active editor weren't typed by the
+ * user, but formatters and refactors touch other documents too, so this only
+ * breaks ties.
+ */
+export class ActiveEditorSignal implements DetectionSignal {
+    readonly id = 'activeEditor';
+    readonly defaultWeight = 1;
+    readonly tieBreaker = true;
+
+    score(context: DetectionContext): number | null {
+        return context.isActiveDocument || isUndoOrRedo(context) ? null : 0.9;
+    }
+}
+
+/** Multi-line insertions that already look like finished code: indented, brackets balanced. */
+export class StructuredInsertionSignal implements DetectionSignal {
+    readonly id = 'structuredInsertion';
+    readonly defaultWeight = 1.5;
+
+    score(context: DetectionContext): number | null {
+        const text = context.event.contentChanges
+            .map(change => change.text)
+            .reduce((longest, current) => current.length > longest.length ? current : longest, '');
+        if (!text.includes('\n')) {
+            return null;
+        }
+        // Enter with auto-indent inserts a newline and whitespace only
+        const lines = text.split('\n').filter(line => line.trim());
+        if (lines.length === 0) {
+            return 0;
+        }
+
+        const indented = lines.some(line => /^\s+\S/.test(line));
+        const score = Math.min(0.8, 0.3 + 0.1 * lines.length);
+        return indented && StructuredInsertionSignal.isBalanced(text) ? Math.min(1, score + 0.2) : score;
+    }
+
+    private static isBalanced(text: string): boolean {
+        const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+        const stack: string[] = [];
+        for (const char of text) {
+            if (char === '(' || char === '[' || char === '{') {
+                stack.push(char);
+            } else if (pairs[char] && stack.pop() !== pairs[char]) {
+                return false;
+            }
+        }
+        return stack.length === 0;
+    }
+}
+
+/**
+ * Gaps between consecutive edits: people type with uneven pauses, while
+ * streamed edits arrive back-to-back or on a steady clock.
+ */
+export class EditTimingSignal implements DetectionSignal {
+    readonly id = 'editTiming';
+    readonly defaultWeight = 1;
+
+    score(context: DetectionContext): number | null {
+        const times = [...context.previousEditTimes, context.timestamp];
+        if (times.length < 4) {
+            return null;
+        }
+
+        const gaps = times.slice(1).map((time, index) => time - times[index]);
+        const mean = gaps.reduce((total, gap) => total + gap, 0) / gaps.length;
+        if (mean < 10) {
+            return 0.9;
+        }
+        const deviation = Math.sqrt(gaps.reduce((total, gap) => total + (gap - mean) ** 2, 0) / gaps.length);
+        return deviation / mean < 0.2 && mean < 100 ? 0.7 : 0.1;
+    }
+}
+
+function isUndoOrRedo(context: DetectionContext): boolean {
+    const reason = context.event.reason;
+    return reason === vscode.TextDocumentChangeReason.Undo || reason === vscode.TextDocumentChangeReason.Redo;
+}
+
+/** How close to 0.5 a result must be for tie-breakers to count, and how far they can move it. */
+const TIE_MARGIN = 0.1;
+
+/**
+ * Combines the signals into one confidence: the weighted mean of every signal
+ * that had an opinion. Tie-breakers are left out of the mean; when it lands
+ * within `TIE_MARGIN` of 0.5 their weighted mean moves it by up to
+ * `TIE_MARGIN` either way. Weights come from `detectionSignalWeights`,
+ * falling back to each signal's default; a weight of 0 turns the signal off.
+ */
+export class DetectionPipeline {
+    private signals: DetectionSignal[];
+
+    constructor(signals: DetectionSignal[] = DetectionPipeline.builtInSignals()) {
+        this.signals = signals;
+    }
+
+    static builtInSignals(): DetectionSignal[] {
+        return [
+            new TypingSpeedSignal(),
+            new BurstSizeSignal(),
+            new EditSpreadSignal(),
+            new ChangeReasonSignal(),
+            new ActiveEditorSignal(),
+            new StructuredInsertionSignal(),
+            new EditTimingSignal()
+        ];
+    }
+
+    /** Returns null when no signal had anything to say about the event. */
+    evaluate(context: DetectionContext, weights: Record<string, number>): DetectionResult | null {
+        const scores: SignalScore[] = [];
+        const tieBreakers: SignalScore[] = [];
+        for (const signal of this.signals) {
+            const weight = weights[signal.id] ?? signal.defaultWeight;
+            if (!(weight > 0)) {
+                continue;
+            }
+            try {
+                const score = signal.score(context);
+                if (score !== null) {
+                    (signal.tieBreaker ? tieBreakers : scores).push({ id: signal.id, score: Math.max(0, Math.min(1, score)), weight });
+                }
+            } catch (error) {
+                console.error(`Detection signal ${signal.id} failed:`, error);
+            }
+        }
+
+        const totalWeight = scores.reduce((total, s) => total + s.weight, 0);
+        if (totalWeight === 0) {
+            return null;
+        }
+        let confidence = scores.reduce((total, s) => total + s.score * s.weight, 0) / totalWeight;
+
+        const tieWeight = tieBreakers.reduce((total, s) => total + s.weight, 0);
+        if (tieWeight > 0 && Math.abs(confidence - 0.5) < TIE_MARGIN) {
+            const tieScore = tieBreakers.reduce((total, s) => total + s.score * s.weight, 0) / tieWeight;
+            confidence = Math.max(0, Math.min(1, confidence + 2 * TIE_MARGIN * (tieScore - 0.5)));
+            scores.push(...tieBreakers);
+        }
+        return { confidence, signals: scores };
+    }
+}
@@ -0,0 +1,330 @@
+import * as path from 'path';
+
+export type FileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface FileChange {
+    path: string;
+    oldPath?: string;
+    status: FileChangeStatus;
+    additions: number;
+    deletions: number;
+    addedSymbols: string[];
+    removedSymbols: string[];
+    changedSymbols: string[];
+}
+
+export interface ChangeDescription {
+    type: string;
+    scope: string;
+    description: string;
+    body: string;
+}
+
+// Declarations worth naming in a commit message, for the languages we see most
+const SYMBOL_PATTERNS: RegExp[] = [
+    // TypeScript / JavaScript
+    /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/,
+    /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/,
+    /^\s*(?:export\s+)?(?:declare\s+)?(?:interface|type|enum)\s+([A-Za-z_$][\w$]*)/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/,
+    /^\s*(?:(?:public|private|protected|static|readonly|async|override)\s+)+([A-Za-z_$][\w$]*)\s*[<(]/,
+    // Python
+    /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/,
+    /^\s*class\s+([A-Za-z_]\w*)\s*[(:]/,
+    // Go
+    /^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+    /^type\s+([A-Za-z_]\w*)\s+(?:struct|interface)\b/,
+    // Rust
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:fn|struct|enum|trait)\s+([A-Za-z_]\w*)/,
+    // Java / C# / Kotlin
+    /^\s*(?:(?:public|private|protected|internal|static|final|abstract|sealed|open|data)\s+)*(?:class|interface|record|object)\s+([A-Za-z_]\w*)/
+];
+
+const MAX_BODY_LINES = 8;
+const MAX_NAMED_SYMBOLS = 3;
+
+/**
+ * Turns `git diff --name-status` and the patch itself into a specific commit
+ * message: which files were added, removed or renamed, which functions,
+ * classes and exports changed, and how many lines. Everything is derived
+ * from the diff text, so it works offline.
+ */
+export class DiffAnalyzer {
+    static parse(nameStatus: string, diff: string): FileChange[] {
+        const changes = new Map<string, FileChange>();
+
+        for (const line of nameStatus.split('\n')) {
+            const [code, first, second] = line.split('\t');
+            if (!code || !first) {
+                continue;
+            }
+            const change = DiffAnalyzer.emptyChange(second || first, DiffAnalyzer.toStatus(code));
+            if (code.startsWith('R') || code.startsWith('C')) {
+                change.oldPath = first;
+            }
+            changes.set(change.path, change);
+        }
+
+        for (const section of diff.split(/^(?=diff --git )/m)) {
+            const header = section.match(/^diff --git a\/(.+?) b\/(.+)$/m);
+            if (!header) {
+                continue;
+            }
+            const filePath = header[2];
+            let change = changes.get(filePath);
+            if (!change) {
+                // Name-status wasn't available, so fall back to the patch headers
+                const status: FileChangeStatus = /^new file mode/m.test(section) ? 'added'
+                    : /^deleted file mode/m.test(section) ? 'deleted'
+                    : /^rename from /m.test(section) ? 'renamed'
+                    : 'modified';
+                change = DiffAnalyzer.emptyChange(filePath, status);
+                if (status === 'renamed') {
+                    change.oldPath = header[1];
+                }
+                changes.set(filePath, change);
+            }
+            DiffAnalyzer.collectLines(section, change);
+        }
+
+        return [...changes.values()];
+    }
+
+    static describe(changes: FileChange[]): ChangeDescription {
+        const files = changes.map(c => c.path);
+        return {
+            type: DiffAnalyzer.inferType(changes),
+            scope: DiffAnalyzer.inferScope(files),
+            description: DiffAnalyzer.summarize(changes),
+            body: DiffAnalyzer.buildBody(changes)
+        };
+    }
+
+    private static emptyChange(filePath: string, status: FileChangeStatus): FileChange {
+        return { path: filePath, status, additions: 0, deletions: 0, addedSymbols: [], removedSymbols: [], changedSymbols: [] };
+    }
+
+    private static toStatus(code: string): FileChangeStatus {
+        switch (code.charAt(0)) {
+            case 'A':
+            case 'C':
+                return 'added';
+            case 'D':
+                return 'deleted';
+            case 'R':
+                return 'renamed';
+            default:
+                return 'modified';
+        }
+    }
+
+    private static collectLines(section: string, change: FileChange): void {
+        const added = new Set<string>();
+        const removed = new Set<string>();
+        const context = new Set<string>();
+
+        for (const line of section.split('\n')) {
+            if (line.startsWith('+++') || line.startsWith('---')) {
+                continue;
+            }
+            if (line.startsWith('@@')) {
+                // Git puts the enclosing function after the hunk range
+                const symbol = DiffAnalyzer.matchSymbol(line.replace(/^@@[^@]*@@\s?/, ''));
+                if (symbol) {
+                    context.add(symbol);
+                }
+            } else if (line.startsWith('+')) {
+                change.additions++;
+                const symbol = DiffAnalyzer.matchSymbol(line.substring(1));
+                if (symbol) {
+                    added.add(symbol);
+                }
+            } else if (line.startsWith('-')) {
+                change.deletions++;
+                const symbol = DiffAnalyzer.matchSymbol(line.substring(1));
+                if (symbol) {
+                    removed.add(symbol);
+                }
+            }
+        }
+
+        // Whole-file additions and deletions are described by the file, not its symbols
+        if (change.status === 'added' || change.status === 'deleted') {
+            return;
+        }
+
+        change.addedSymbols = [...added].filter(s => !removed.has(s));
+        change.removedSymbols = [...removed].filter(s => !added.has(s));
+        change.changedSymbols = [...new Set([...[...added].filter(s => removed.has(s)), ...context])]
+            .filter(s => !change.addedSymbols.includes(s) && !change.removedSymbols.includes(s));
+    }
+
+    private static matchSymbol(line: string): string | undefined {
+        for (const pattern of SYMBOL_PATTERNS) {
+            const match = line.match(pattern);
+            if (match && !['if', 'for', 'while', 'switch', 'catch', 'return'].includes(match[1])) {
+                return match[1];
+            }
+        }
+        return undefined;
+    }
+
+    private static inferType(changes: FileChange[]): string {
+        const files = changes.map(c => c.path);
+        const all = (test: (file: string) => boolean) => files.length > 0 && files.every(test);
+
+        if (all(DiffAnalyzer.isTestFile)) {
+            return 'test';
+        }
+        if (all(f => /\.(md|mdx|txt|rst|adoc)$/i.test(f) || /(^|\/)docs?\//.test(f))) {
+            return 'docs';
+        }
+        if (all(f => /\.(css|scss|sass|less|styl)$/i.test(f))) {
+            return 'style';
+        }
+        if (all(f => /(^|\/)\.github\/|\.gitlab-ci\.yml$|(^|\/)Jenkinsfile$/.test(f))) {
+            return 'ci';
+        }
+        if (all(f => /(^|\/)(package\.json|tsconfig[^/]*\.json|webpack[^/]*|rollup[^/]*|vite\.config[^/]*|Makefile|Dockerfile)$|\.lock$|-lock\.(json|yaml)$/.test(f))) {
+            return 'build';
+        }
+        if (all(f => /\.(json|ya?ml|toml|ini|env)$/i.test(f) || /(^|\/)\.[^/]+rc(\.\w+)?$/.test(f) || f.includes('config'))) {
+            return 'chore';
+        }
+
+        const addsSomething = changes.some(c => c.status === 'added' || c.addedSymbols.length > 0);
+        if (addsSomething) {
+            return 'feat';
+        }
+        if (files.some(f => /fix|bug/i.test(f))) {
+            return 'fix';
+        }
+        const onlyMovesOrRemoves = changes.every(c =>
+            c.status === 'deleted' || c.status === 'renamed' || (c.additions === 0 && c.deletions > 0)
+        );
+        if (onlyMovesOrRemoves || changes.some(c => c.removedSymbols.length > 0)) {
+            return 'refactor';
+        }
+        return changes.some(c => c.changedSymbols.length > 0) ? 'fix' : 'chore';
+    }
+
+    private static isTestFile(file: string): boolean {
+        return /(^|\/)(__tests__|tests?|spec)\//.test(file) || /\.(test|spec)\.[^/]+$/.test(file) || /(^|\/)test_[^/]+\.py$/.test(file);
+    }
+
+    private static inferScope(files: string[]): string {
+        if (files.length === 1) {
+            return DiffAnalyzer.stem(files[0]);
+        }
+        const directories = [...new Set(files.map(f => path.posix.dirname(f)))];
+        if (directories.length === 1 && !['.', 'src', 'lib'].includes(directories[0])) {
+            return path.posix.basename(directories[0]);
+        }
+        return '';
+    }
+
+    private static summarize(changes: FileChange[]): string {
+        if (changes.length === 0) {
+            return 'update files';
+        }
+
+        const added = changes.filter(c => c.status === 'added');
+        const deleted = changes.filter(c => c.status === 'deleted');
+        const renamed = changes.filter(c => c.status === 'renamed');
+        const modified = changes.filter(c => c.status === 'modified');
+        const addedSymbols = [...new Set(modified.flatMap(c => c.addedSymbols))];
+        const removedSymbols = [...new Set(modified.flatMap(c => c.removedSymbols))];
+        const changedSymbols = [...new Set(modified.flatMap(c => c.changedSymbols))];
+
+        if (added.length === changes.length) {
+            return `add ${DiffAnalyzer.listNames(added.map(c => DiffAnalyzer.stem(c.path)), 'files')}`;
+        }
+        if (deleted.length === changes.length) {
+            return `remove ${DiffAnalyzer.listNames(deleted.map(c => DiffAnalyzer.stem(c.path)), 'files')}`;
+        }
+        if (renamed.length === changes.length) {
+            if (renamed.length === 1 && renamed[0].oldPath) {
+                return `rename ${path.posix.basename(renamed[0].oldPath)} to ${path.posix.basename(renamed[0].path)}`;
+            }
+            return `move ${renamed.length} files`;
+        }
+
+        const parts: string[] = [];
+        if (addedSymbols.length > 0) {
+            parts.push(`add ${DiffAnalyzer.listNames(addedSymbols, DiffAnalyzer.symbolNoun(addedSymbols))}`);
+        } else if (added.length > 0) {
+            parts.push(`add ${DiffAnalyzer.listNames(added.map(c => DiffAnalyzer.stem(c.path)), 'files')}`);
+        }
+        if (removedSymbols.length > 0) {
+            parts.push(`remove ${DiffAnalyzer.listNames(removedSymbols, '')}`);
+        } else if (deleted.length > 0 && parts.length === 0) {
+            parts.push(`remove ${DiffAnalyzer.listNames(deleted.map(c => DiffAnalyzer.stem(c.path)), 'files')}`);
+        }
+        if (parts.length === 0 && changedSymbols.length > 0) {
+            parts.push(`update ${DiffAnalyzer.listNames(changedSymbols, '')}`);
+        }
+        if (parts.length === 0) {
+            parts.push(modified.length === 1
+                ? `update ${path.posix.basename(modified[0].path)}`
+                : `update ${changes.length} files`);
+        }
+        return parts.join(' and ');
+    }
+
+    private static buildBody(changes: FileChange[]): string {
+        if (changes.length < 2 && changes.every(c => c.addedSymbols.length + c.removedSymbols.length <= 1)) {
+            return '';
+        }
+
+        const lines = changes.slice(0, MAX_BODY_LINES).map(change => {
+            const counts = `(+${change.additions} -${change.deletions})`;
+            switch (change.status) {
+                case 'added':
+                    return `- add ${change.path} ${counts}`;
+                case 'deleted':
+                    return `- remove ${change.path} ${counts}`;
+                case 'renamed':
+                    return `- rename ${change.oldPath} to ${change.path} ${counts}`;
+                default: {
+                    const details = [
+                        change.addedSymbols.length ? `add ${change.addedSymbols.join(', ')}` : '',
+                        change.removedSymbols.length ? `remove ${change.removedSymbols.join(', ')}` : '',
+                        change.changedSymbols.length ? `update ${change.changedSymbols.join(', ')}` : ''
+                    ].filter(d => d);
+                    return `- ${change.path}: ${details.length ? details.join('; ') : 'update'} ${counts}`;
+                }
+            }
+        });
+
+        if (changes.length > MAX_BODY_LINES) {
+            lines.push(`- and ${changes.length - MAX_BODY_LINES} more files`);
+        }
+        return lines.join('\n');
+    }
+
+    private static listNames(names: string[], noun: string): string {
+        const unique = [...new Set(names)];
+        const suffix = noun ? ` ${noun}` : '';
+        if (unique.length === 1) {
+            return unique[0];
+        }
+        if (unique.length <= MAX_NAMED_SYMBOLS) {
+            return `${unique.slice(0, -1).join(', ')} and ${unique[unique.length - 1]}${suffix}`;
+        }
+        return `${unique.slice(0, MAX_NAMED_SYMBOLS - 1).join(', ')} and ${unique.length - MAX_NAMED_SYMBOLS + 1} more${suffix}`;
+    }
+
+    private static symbolNoun(symbols: string[]): string {
+        if (symbols.every(s => /^[A-Z]/.test(s))) {
+            return 'types';
+        }
+        return symbols.every(s => /^[a-z_$]/.test(s)) ? 'helpers' : '';
+    }
+
+    private static stem(file: string): string {
+        const base = path.posix.basename(file);
+        // parser.test.ts -> parser, index.ts -> its directory name
+        const stem = base.replace(/\.(test|spec|d)\.[^.]+$/, '').replace(/\.[^.]+$/, '') || base;
+        return stem === 'index' && path.posix.dirname(file) !== '.' ? path.posix.basename(path.posix.dirname(file)) : stem;
+    }
+}
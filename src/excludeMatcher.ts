@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Glob } from './glob';
+
+export const EXCLUDE_FILE = '.cursorgitignore';
+
+export interface ExcludeRule {
+    pattern: string; // as written, including any `!`
+    source: string; // `cursorGit.excludePatterns` or `.cursorgitignore`
+    line?: number; // 1-based, for rules read from a file
+    negated: boolean;
+    directoryOnly: boolean;
+    regex: RegExp;
+}
+
+/**
+ * Matches repository paths against exclude rules with `.gitignore`
+ * semantics: patterns containing a slash are anchored to the repository
+ * root, others match at any depth; `*`, `?`, `**` and `[...]` classes work as
+ * in git; a trailing `/` only matches directories; and `!` re-includes a path
+ * unless one of its parent directories is excluded. Later rules win.
+ */
+export class ExcludeMatcher {
+    private rules: ExcludeRule[];
+
+    constructor(rules: ExcludeRule[]) {
+        this.rules = rules;
+    }
+
+    /** Builds the matcher from the `excludePatterns` setting followed by `.cursorgitignore`. */
+    static load(root: string, settingPatterns: string[]): ExcludeMatcher {
+        const rules = ExcludeMatcher.parse(settingPatterns, 'cursorGit.excludePatterns', false);
+        const excludeFile = path.join(root, EXCLUDE_FILE);
+        if (fs.existsSync(excludeFile)) {
+            rules.push(...ExcludeMatcher.parse(fs.readFileSync(excludeFile, 'utf8').split(/\r?\n/), EXCLUDE_FILE, true));
+        }
+        return new ExcludeMatcher(rules);
+    }
+
+    static parse(lines: string[], source: string, withLineNumbers: boolean): ExcludeRule[] {
+        const rules: ExcludeRule[] = [];
+        lines.forEach((rawLine, index) => {
+            // Trailing spaces are ignored unless escaped with a backslash
+            let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+            if (!pattern || pattern.startsWith('#')) {
+                return;
+            }
+
+            const negated = pattern.startsWith('!');
+            if (negated) {
+                pattern = pattern.substring(1);
+            } else if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+                pattern = pattern.substring(1);
+            }
+
+            const directoryOnly = pattern.endsWith('/');
+            if (directoryOnly) {
+                pattern = pattern.replace(/\/+$/, '');
+            }
+            if (!pattern) {
+                return;
+            }
+
+            rules.push({
+                pattern: rawLine.trim(),
+                source,
+                line: withLineNumbers ? index + 1 : undefined,
+                negated,
+                directoryOnly,
+                regex: Glob.toRegExp(pattern, { matchAnyDepth: true })
+            });
+        });
+        return rules;
+    }
+
+    isExcluded(repoPath: string): boolean {
+        const rule = this.explain(repoPath);
+        return !!rule && !rule.negated;
+    }
+
+    /**
+     * Returns the rule that decides `repoPath`: an exclude rule when it is
+     * excluded, a `!` rule when it was re-included, or undefined when no rule
+     * applies.
+     */
+    explain(repoPath: string): ExcludeRule | undefined {
+        const segments = repoPath.split(/[\\/]/).filter(s => s);
+
+        // git never looks inside an excluded directory, so a parent match can't be undone
+        for (let i = 1; i < segments.length; i++) {
+            const rule = this.lastMatch(segments.slice(0, i).join('/'), true);
+            if (rule && !rule.negated) {
+                return rule;
+            }
+        }
+        return this.lastMatch(segments.join('/'), false);
+    }
+
+    private lastMatch(candidate: string, isDirectory: boolean): ExcludeRule | undefined {
+        for (let i = this.rules.length - 1; i >= 0; i--) {
+            const rule = this.rules[i];
+            if ((!rule.directoryOnly || isDirectory) && rule.regex.test(candidate)) {
+                return rule;
+            }
+        }
+        return undefined;
+    }
+}
@@ -1,48 +1,81 @@
 import * as vscode from 'vscode';
-import { GitManager } from './gitManager';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitSummary, GitManager, ShadowSnapshot } from './gitManager';
+import { AttributionReporter } from './attributionReport';
+import { CommitTimelineProvider, TimelineNode } from './commitTimelineProvider';
+import { RepositoryRegistry } from './repositoryRegistry';
 import { ChangeDetector } from './changeDetector';
 import { ChatInterface } from './chatInterface';
 import { StatusBarManager } from './statusBarManager';
+import { CommitTemplate } from './commitTemplate';
+import { EXCLUDE_FILE } from './excludeMatcher';
+import { TypingCalibration } from './typingCalibration';
 
-let gitManager: GitManager;
+let repositoryRegistry: RepositoryRegistry;
 let changeDetector: ChangeDetector;
 let chatInterface: ChatInterface;
 let statusBarManager: StatusBarManager;
+let commitTimelineProvider: CommitTimelineProvider;
+let typingCalibration: TypingCalibration;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Cursor Git extension is now active!');
 
     // Initialize components
-    gitManager = new GitManager();
-    changeDetector = new ChangeDetector(gitManager);
-    chatInterface = new ChatInterface(gitManager);
+    repositoryRegistry = new RepositoryRegistry();
+    typingCalibration = new TypingCalibration(context.globalState);
+    changeDetector = new ChangeDetector(repositoryRegistry, typingCalibration);
+    chatInterface = new ChatInterface(repositoryRegistry);
     statusBarManager = new StatusBarManager();
+    commitTimelineProvider = new CommitTimelineProvider(repositoryRegistry);
+
+    // Expose the enabled flag to `when` clauses for the view and menus
+    vscode.commands.executeCommand('setContext', 'cursorGit.enabled', vscode.workspace.getConfiguration('cursorGit').get('enabled', true));
 
     // Register commands
     const enableCommand = vscode.commands.registerCommand('cursorGit.enable', () => {
         vscode.workspace.getConfiguration('cursorGit').update('enabled', true, vscode.ConfigurationTarget.Global);
+        vscode.commands.executeCommand('setContext', 'cursorGit.enabled', true);
         statusBarManager.updateStatus(true);
         vscode.window.showInformationMessage('Cursor Git: Auto-commit enabled');
     });
 
     const disableCommand = vscode.commands.registerCommand('cursorGit.disable', () => {
         vscode.workspace.getConfiguration('cursorGit').update('enabled', false, vscode.ConfigurationTarget.Global);
+        vscode.commands.executeCommand('setContext', 'cursorGit.enabled', false);
         statusBarManager.updateStatus(false);
         vscode.window.showInformationMessage('Cursor Git: Auto-commit disabled');
     });
 
     const commitNowCommand = vscode.commands.registerCommand('cursorGit.commitNow', async () => {
         try {
-            const result = await gitManager.stageAndCommit();
-            if (result.success) {
-                vscode.window.showInformationMessage(`Committed: ${result.message}`);
-                chatInterface.addMessage({
-                    type: 'assistant',
-                    content: `Committed: ${result.message}`,
-                    timestamp: new Date()
-                });
-            } else {
-                vscode.window.showErrorMessage(`Commit failed: ${result.error}`);
+            const managers = repositoryRegistry.getManagers();
+            if (managers.length === 0) {
+                vscode.window.showWarningMessage('No repositories found in the workspace.');
+                return;
+            }
+
+            let attempted = 0;
+            for (const manager of managers) {
+                const repositoryName = repositoryRegistry.getRepositoryName(manager);
+                const result = await manager.stageAndCommit();
+                if (result.success) {
+                    attempted++;
+                    vscode.window.showInformationMessage(`Committed in ${repositoryName}: ${result.message}`);
+                    chatInterface.addMessage({
+                        type: 'assistant',
+                        content: `Committed in ${repositoryName}: ${result.message}`,
+                        timestamp: new Date()
+                    });
+                } else if (result.error !== 'No modified files') {
+                    attempted++;
+                    vscode.window.showErrorMessage(`Commit failed in ${repositoryName}: ${result.error}`);
+                }
+            }
+
+            if (attempted === 0) {
+                vscode.window.showInformationMessage('No changes to commit.');
             }
         } catch (error) {
             vscode.window.showErrorMessage(`Commit error: ${error}`);
@@ -54,7 +87,9 @@ export function activate(context: vscode.ExtensionContext) {
         const isEnabled = config.get('enabled', true);
         const commitFrequency = config.get('commitFrequency', 'onSave');
         const useCursorAI = config.get('useCursorAI', true);
-        const typingThreshold = config.get('typingSpeedThreshold', 150);
+        const typingThreshold = typingCalibration.getThreshold();
+        const calibrated = typingCalibration.getProfile() ? ' (calibrated)' : '';
+        const repositoryNames = repositoryRegistry.getManagers().map(m => repositoryRegistry.getRepositoryName(m));
         
         vscode.window.showInformationMessage(
             `Cursor Git Status:\n` +
@@ -62,12 +97,19 @@ export function activate(context: vscode.ExtensionContext) {
             `Commit Frequency: ${commitFrequency}\n` +
             `Auto Stage: ${config.get('autoStage', true) ? 'Yes' : 'No'}\n` +
             `Use Cursor AI: ${useCursorAI ? 'Yes' : 'No'}\n` +
-            `Typing Speed Threshold: ${typingThreshold} WPM`
+            `Typing Speed Threshold: ${typingThreshold} WPM${calibrated}\n` +
+            `Repositories: ${repositoryNames.length > 0 ? repositoryNames.join(', ') : 'None'}`
         );
     });
 
     const testCursorAICommand = vscode.commands.registerCommand('cursorGit.testCursorAI', async () => {
         try {
+            const gitManager = repositoryRegistry.getActiveManager();
+            if (!gitManager) {
+                vscode.window.showWarningMessage('No repositories found in the workspace.');
+                return;
+            }
+
             // Get modified files
             const modifiedFiles = await gitManager.getModifiedFiles();
             if (modifiedFiles.length === 0) {
@@ -111,6 +153,12 @@ export function activate(context: vscode.ExtensionContext) {
     // New command to test AI generation with sample files
     const testAISampleCommand = vscode.commands.registerCommand('cursorGit.testAISample', async () => {
         try {
+            const gitManager = repositoryRegistry.getActiveManager();
+            if (!gitManager) {
+                vscode.window.showWarningMessage('No repositories found in the workspace.');
+                return;
+            }
+
             const testMessage = await gitManager.testAIGeneration();
             vscode.window.showInformationMessage(`AI Test Message: ${testMessage}`);
         } catch (error) {
@@ -143,26 +191,379 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     // Command to check typing status
-    const checkTypingStatusCommand = vscode.commands.registerCommand('cursorGit.checkTypingStatus', () => {
-        const status = changeDetector.getTypingStatus();
-        const timeSinceLastAction = Date.now() - status.lastUserAction;
-        
-        vscode.window.showInformationMessage(
-            `Typing Status:\n` +
-            `Current Mode: ${status.isHuman ? 'Human' : 'AI'}\n` +
-            `Last User Action: ${timeSinceLastAction > 0 ? Math.round(timeSinceLastAction / 1000) + 's ago' : 'Never'}`
-        );
+    const checkTypingStatusCommand = vscode.commands.registerCommand('cursorGit.checkTypingStatus', async () => {
+        const statuses = changeDetector.getTypingStatus();
+        if (statuses.length === 0) {
+            vscode.window.showInformationMessage('No open documents to report on.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(statuses.map(status => {
+            const mode = status.isHuman === null ? 'Unknown' : status.isHuman ? 'Human' : 'AI';
+            const confidence = status.isHuman === false && status.confidence !== null ? ` (${Math.round(status.confidence * 100)}%)` : '';
+            const lastAction = status.lastUserAction > 0 ? `${Math.round((Date.now() - status.lastUserAction) / 1000)}s ago` : 'Never';
+            return {
+                label: vscode.workspace.asRelativePath(vscode.Uri.parse(status.fileUri)),
+                description: `${mode}${confidence}${status.pendingCommit ? ' • pending commit' : ''}`,
+                detail: `WPM: ${status.wpm !== null ? status.wpm.toFixed(1) : 'N/A'} • Last user action: ${lastAction}`,
+                fileUri: status.fileUri
+            };
+        }), { placeHolder: 'Typing status per open document' });
+        if (selected) {
+            await vscode.window.showTextDocument(vscode.Uri.parse(selected.fileUri));
+        }
     });
 
     // Command to manually set AI flag
     const setAIFlagCommand = vscode.commands.registerCommand('cursorGit.setAIFlag', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showWarningMessage('Open the file whose typing mode you want to set.');
+            return;
+        }
+
         const result = await vscode.window.showQuickPick(['Human', 'AI'], {
-            placeHolder: 'Set typing mode'
+            placeHolder: `Set typing mode for ${path.basename(editor.document.fileName)}`
         });
         
         if (result) {
-            changeDetector.setAIFlag(result === 'AI');
-            vscode.window.showInformationMessage(`Typing mode set to: ${result}`);
+            changeDetector.setAIFlag(editor.document.uri.toString(), result === 'AI');
+            vscode.window.showInformationMessage(`Typing mode for ${path.basename(editor.document.fileName)} set to: ${result}`);
+        }
+    });
+
+    // Commands to learn the user's typing speed and show what was learned
+    const calibrateCommand = vscode.commands.registerCommand('cursorGit.calibrate', async () => {
+        await typingCalibration.runWizard();
+    });
+
+    const showTypingProfileCommand = vscode.commands.registerCommand('cursorGit.showTypingProfile', () => {
+        typingCalibration.showProfile();
+    });
+
+    // Command to browse AI snapshots recorded in shadow mode
+    const showShadowHistoryCommand = vscode.commands.registerCommand('cursorGit.showShadowHistory', async () => {
+        try {
+            const gitManager = repositoryRegistry.getActiveManager();
+            if (!gitManager) {
+                vscode.window.showWarningMessage('No repositories found in the workspace.');
+                return;
+            }
+
+            const snapshot = await pickShadowSnapshot(gitManager, 'Select an AI snapshot to view');
+            if (!snapshot) {
+                return;
+            }
+
+            const diff = await gitManager.getShadowSnapshotDiff(snapshot.hash);
+            const document = await vscode.workspace.openTextDocument({ content: diff, language: 'diff' });
+            await vscode.window.showTextDocument(document, { preview: true });
+
+            const selection = await vscode.window.showInformationMessage(
+                `AI snapshot ${snapshot.hash.substring(0, 7)}: ${snapshot.message}`,
+                'Cherry-pick onto Branch'
+            );
+            if (selection === 'Cherry-pick onto Branch') {
+                await cherryPickSnapshot(gitManager, snapshot);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to show AI snapshots: ${error}`);
+        }
+    });
+
+    // Command to apply an AI snapshot to the real branch
+    const cherryPickShadowSnapshotCommand = vscode.commands.registerCommand('cursorGit.cherryPickShadowSnapshot', async () => {
+        try {
+            const gitManager = repositoryRegistry.getActiveManager();
+            if (!gitManager) {
+                vscode.window.showWarningMessage('No repositories found in the workspace.');
+                return;
+            }
+
+            const snapshot = await pickShadowSnapshot(gitManager, 'Select an AI snapshot to cherry-pick');
+            if (snapshot) {
+                await cherryPickSnapshot(gitManager, snapshot);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Cherry-pick failed: ${error}`);
+        }
+    });
+
+    // Command to show why the commit under the cursor was marked as AI
+    const showDetectionEvidenceCommand = vscode.commands.registerCommand('cursorGit.showDetectionEvidence', async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage('Open a file and place the cursor on a line to inspect.');
+                return;
+            }
+
+            const gitManager = await repositoryRegistry.resolveManagerForUri(editor.document.uri);
+            if (!gitManager) {
+                vscode.window.showWarningMessage('This file is not in a repository.');
+                return;
+            }
+
+            const hash = await gitManager.getCommitForLine(editor.document.uri.fsPath, editor.selection.active.line);
+            if (!hash) {
+                vscode.window.showInformationMessage('The line under the cursor is not committed yet.');
+                return;
+            }
+
+            await showDetectionEvidence(gitManager, hash);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to show detection evidence: ${error}`);
+        }
+    });
+
+    // Command to explain which exclude rule keeps a file out of auto-commits
+    const explainExclusionCommand = vscode.commands.registerCommand('cursorGit.explainExclusion', async (uri?: vscode.Uri) => {
+        try {
+            const target = uri || vscode.window.activeTextEditor?.document.uri;
+            if (!target) {
+                vscode.window.showWarningMessage('Open or select a file to check.');
+                return;
+            }
+
+            const gitManager = await repositoryRegistry.resolveManagerForUri(target);
+            if (!gitManager) {
+                vscode.window.showWarningMessage('This file is not in a repository.');
+                return;
+            }
+
+            const file = vscode.workspace.asRelativePath(target, false);
+            const rule = gitManager.explainExclusion(target.fsPath);
+            if (!rule) {
+                vscode.window.showInformationMessage(`${file} is not excluded from auto-commit.`);
+                return;
+            }
+
+            const location = rule.line ? `${rule.source}:${rule.line}` : rule.source;
+            const verdict = rule.negated ? 're-included' : 'excluded';
+            const actions = rule.line ? ['Open Rule'] : ['Open Settings'];
+            const selection = await vscode.window.showInformationMessage(`${file} is ${verdict} by "${rule.pattern}" (${location}).`, ...actions);
+            if (selection === 'Open Rule') {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(vscode.Uri.file(gitManager.getWorkspaceRoot()), EXCLUDE_FILE));
+                const line = new vscode.Position((rule.line || 1) - 1, 0);
+                await vscode.window.showTextDocument(document, { selection: new vscode.Range(line, line) });
+            } else if (selection === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'cursorGit.excludePatterns');
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to explain exclusion: ${error}`);
+        }
+    });
+
+    // Command to show what git hooks printed during auto-commits
+    const showHookOutputCommand = vscode.commands.registerCommand('cursorGit.showHookOutput', () => {
+        changeDetector.showHookOutput();
+    });
+
+    // Command to report how much of the codebase came from AI
+    const attributionReportCommand = vscode.commands.registerCommand('cursorGit.attributionReport', async () => {
+        try {
+            const gitManager = repositoryRegistry.getActiveManager();
+            if (!gitManager) {
+                vscode.window.showWarningMessage('No repositories found in the workspace.');
+                return;
+            }
+
+            const revision = await vscode.window.showInputBox({
+                prompt: 'Revision or revision range to blame',
+                placeHolder: 'HEAD, v1.0..HEAD',
+                value: 'HEAD'
+            });
+            if (revision === undefined) {
+                return;
+            }
+            const pathFilter = await vscode.window.showInputBox({
+                prompt: 'Path filter (optional)',
+                placeHolder: 'src/'
+            });
+            if (pathFilter === undefined) {
+                return;
+            }
+
+            const reporter = new AttributionReporter(gitManager);
+            const report = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Cursor Git: Building attribution report',
+                cancellable: false
+            }, progress => reporter.generate(revision.trim() || 'HEAD', pathFilter.trim(), progress));
+
+            const document = await vscode.workspace.openTextDocument({
+                content: AttributionReporter.toMarkdown(report),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(document, { preview: false });
+
+            const exportFormat = await vscode.window.showInformationMessage(
+                `AI share: ${AttributionReporter.aiPercent(report.total).toFixed(1)}% of ${report.total.aiLines + report.total.humanLines} lines`,
+                'Export JSON',
+                'Export CSV'
+            );
+            if (exportFormat) {
+                const isJson = exportFormat === 'Export JSON';
+                const target = await vscode.window.showSaveDialog({
+                    defaultUri: vscode.Uri.file(`${gitManager.getWorkspaceRoot()}/ai-attribution.${isJson ? 'json' : 'csv'}`),
+                    filters: isJson ? { 'JSON': ['json'] } : { 'CSV': ['csv'] }
+                });
+                if (target) {
+                    fs.writeFileSync(target.fsPath, isJson ? AttributionReporter.toJson(report) : AttributionReporter.toCsv(report));
+                    vscode.window.showInformationMessage(`Attribution report exported to ${target.fsPath}`);
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Attribution report failed: ${error}`);
+        }
+    });
+
+    // Command to collapse a chain of agent commits into one
+    const squashAgentCommitsCommand = vscode.commands.registerCommand('cursorGit.squashAgentCommits', async () => {
+        try {
+            const gitManager = repositoryRegistry.getActiveManager();
+            if (!gitManager) {
+                vscode.window.showWarningMessage('No repositories found in the workspace.');
+                return;
+            }
+
+            const mode = await vscode.window.showQuickPick([
+                { label: 'Agent commits at the tip', description: 'Contiguous AI commits on top of the branch', value: 'tip' },
+                { label: 'Pick a range', description: 'Choose the oldest commit to include', value: 'range' }
+            ], { placeHolder: 'Which commits should be squashed?' });
+            if (!mode) {
+                return;
+            }
+
+            let commits: CommitSummary[];
+            if (mode.value === 'tip') {
+                commits = await gitManager.getAgentCommitRun();
+            } else {
+                const recent = await gitManager.getRecentCommits(30);
+                const oldest = await vscode.window.showQuickPick(
+                    recent.map((commit, index) => ({
+                        label: commit.message,
+                        description: `${commit.hash.substring(0, 7)}${commit.isAI ? ' (AI)' : ''}`,
+                        detail: `${commit.author} • ${new Date(commit.date).toLocaleString()}`,
+                        index
+                    })),
+                    { placeHolder: 'Select the oldest commit to include' }
+                );
+                if (!oldest) {
+                    return;
+                }
+                commits = recent.slice(0, oldest.index + 1);
+                // The squash is authored by the AI identity, so it must not swallow anyone else's work
+                const humanCommits = commits.filter(commit => !commit.isAI);
+                if (humanCommits.length > 0) {
+                    vscode.window.showWarningMessage(
+                        `The range includes ${humanCommits.length} commit(s) not written by AI. Only AI commits can be squashed.`
+                    );
+                    return;
+                }
+            }
+
+            if (commits.length < 2) {
+                vscode.window.showInformationMessage('Nothing to squash: at least two commits are needed.');
+                return;
+            }
+
+            const base = `${commits[commits.length - 1].hash}^`;
+            const pushed = await gitManager.countPushedCommits(base);
+            if (pushed > 0) {
+                const override = await vscode.window.showWarningMessage(
+                    `${pushed} of these ${commits.length} commits are already on the upstream. Squashing rewrites published history.`,
+                    { modal: true },
+                    'Squash Anyway'
+                );
+                if (override !== 'Squash Anyway') {
+                    return;
+                }
+            } else {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Squash ${commits.length} commits into one?`,
+                    { modal: true },
+                    'Squash'
+                );
+                if (confirm !== 'Squash') {
+                    return;
+                }
+            }
+
+            const result = await gitManager.squashCommits(base);
+            if (result.success) {
+                commitTimelineProvider.refresh();
+                vscode.window.showInformationMessage(`Squashed ${commits.length} commits: ${result.message}`);
+            } else {
+                vscode.window.showErrorMessage(`Squash failed: ${result.error}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Squash failed: ${error}`);
+        }
+    });
+
+    // Command to squash, rebase or discard an AI session branch
+    const finishAISessionCommand = vscode.commands.registerCommand('cursorGit.finishAISession', async () => {
+        try {
+            const gitManager = repositoryRegistry.getActiveManager();
+            if (!gitManager) {
+                vscode.window.showWarningMessage('No repositories found in the workspace.');
+                return;
+            }
+            await changeDetector.finishAISession(gitManager);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Finishing AI session failed: ${error}`);
+        }
+    });
+
+    // Timeline view of auto-commits and its context-menu actions
+    const timelineView = vscode.window.registerTreeDataProvider('cursorGitView', commitTimelineProvider);
+    const commitListener = changeDetector.onDidCommit(() => {
+        commitTimelineProvider.refresh();
+        refreshRedirectStatus();
+    });
+    const editorListener = vscode.window.onDidChangeActiveTextEditor(() => refreshRedirectStatus());
+    const focusListener = vscode.window.onDidChangeWindowState(state => {
+        if (state.focused) {
+            refreshRedirectStatus();
+        }
+    });
+
+    const timelineRefreshCommand = vscode.commands.registerCommand('cursorGit.timeline.refresh', () => {
+        commitTimelineProvider.refresh();
+    });
+
+    const timelineOpenDiffCommand = vscode.commands.registerCommand('cursorGit.timeline.openDiff', async (node: TimelineNode) => {
+        if (node?.kind !== 'commit' && node?.kind !== 'file') {
+            return;
+        }
+        try {
+            const patch = await node.manager.getCommitPatch(node.commit.hash, node.kind === 'file' ? node.path : undefined);
+            const document = await vscode.workspace.openTextDocument({ content: patch, language: 'diff' });
+            await vscode.window.showTextDocument(document, { preview: true });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open diff: ${error}`);
+        }
+    });
+
+    const timelineRevertCommand = vscode.commands.registerCommand('cursorGit.timeline.revertCommit', async (node: TimelineNode) => {
+        if (node?.kind !== 'commit') {
+            return;
+        }
+        await changeDetector.revertAutoCommit(node.manager, node.commit.hash);
+        commitTimelineProvider.refresh();
+    });
+
+    const timelineCopyHashCommand = vscode.commands.registerCommand('cursorGit.timeline.copyHash', async (node: TimelineNode) => {
+        if (node?.kind === 'commit') {
+            await vscode.env.clipboard.writeText(node.commit.hash);
+            vscode.window.showInformationMessage(`Copied ${node.commit.hash.substring(0, 7)} to the clipboard`);
+        }
+    });
+
+    const timelineShowEvidenceCommand = vscode.commands.registerCommand('cursorGit.timeline.showEvidence', async (node: TimelineNode) => {
+        if (node?.kind === 'commit') {
+            await showDetectionEvidence(node.manager, node.commit.hash);
         }
     });
 
@@ -176,14 +577,50 @@ export function activate(context: vscode.ExtensionContext) {
         testAISampleCommand, 
         checkCursorAICommand,
         checkTypingStatusCommand,
-        setAIFlagCommand
+        setAIFlagCommand,
+        calibrateCommand,
+        showTypingProfileCommand,
+        showShadowHistoryCommand,
+        cherryPickShadowSnapshotCommand,
+        showDetectionEvidenceCommand,
+        explainExclusionCommand,
+        showHookOutputCommand,
+        attributionReportCommand,
+        squashAgentCommitsCommand,
+        finishAISessionCommand,
+        timelineView,
+        commitListener,
+        editorListener,
+        focusListener,
+        timelineRefreshCommand,
+        timelineOpenDiffCommand,
+        timelineRevertCommand,
+        timelineCopyHashCommand,
+        timelineShowEvidenceCommand
     );
 
+    // Surface template mistakes as soon as the settings load, not on the next auto-commit
+    validateTemplateSettings();
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('cursorGit.commitMessageTemplate') ||
+            e.affectsConfiguration('cursorGit.commitMessageTemplateOverrides') ||
+            e.affectsConfiguration('cursorGit.ticketPattern')) {
+            validateTemplateSettings();
+        }
+    }));
+
+    // Track workspace folders as they come and go
+    repositoryRegistry.initialize();
+
     // Initialize change detection
     changeDetector.initialize();
 
     // Set up status bar
     statusBarManager.initialize();
+    refreshRedirectStatus();
+
+    // Nudge toward recalibrating once the typing profile gets old
+    typingCalibration.remindIfStale();
 
     // Show welcome message
     vscode.window.showInformationMessage(
@@ -196,6 +633,63 @@ export function activate(context: vscode.ExtensionContext) {
     });
 }
 
+async function refreshRedirectStatus(): Promise<void> {
+    const gitManager = repositoryRegistry.getActiveManager();
+    const branch = gitManager ? await gitManager.getCurrentBranch() : '';
+    const base = gitManager ? await gitManager.getRedirectBase(branch) : null;
+    statusBarManager.setRedirect(base ? { branch, base } : null);
+}
+
+function validateTemplateSettings(): void {
+    const errors = CommitTemplate.validateSettings(vscode.workspace.getConfiguration('cursorGit'));
+    if (errors.length > 0) {
+        vscode.window.showErrorMessage(`Cursor Git: invalid commit template settings. ${errors.join(' ')}`, 'Open Settings').then(selection => {
+            if (selection === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'cursorGit.commitMessageTemplate');
+            }
+        });
+    }
+}
+
+async function showDetectionEvidence(gitManager: GitManager, hash: string): Promise<void> {
+    const note = await gitManager.getCommitNote(hash);
+    if (!note) {
+        vscode.window.showInformationMessage(`Commit ${hash.substring(0, 7)} has no detection evidence.`);
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({ content: note, language: 'json' });
+    await vscode.window.showTextDocument(document, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+}
+
+async function pickShadowSnapshot(gitManager: GitManager, placeHolder: string): Promise<ShadowSnapshot | undefined> {
+    const history = await gitManager.getShadowHistory();
+    if (history.length === 0) {
+        vscode.window.showInformationMessage('No AI snapshots recorded for the current branch.');
+        return undefined;
+    }
+
+    const selection = await vscode.window.showQuickPick(
+        history.map(snapshot => ({
+            label: snapshot.message,
+            description: snapshot.hash.substring(0, 7),
+            detail: `${snapshot.author} • ${new Date(snapshot.date).toLocaleString()}`,
+            snapshot
+        })),
+        { placeHolder }
+    );
+    return selection?.snapshot;
+}
+
+async function cherryPickSnapshot(gitManager: GitManager, snapshot: ShadowSnapshot): Promise<void> {
+    const result = await gitManager.cherryPickShadowSnapshot(snapshot.hash);
+    if (result.success) {
+        vscode.window.showInformationMessage(`Cherry-picked AI snapshot: ${result.message}`);
+    } else {
+        vscode.window.showErrorMessage(`Cherry-pick failed: ${result.error}`);
+    }
+}
+
 export function deactivate() {
     if (changeDetector) {
         changeDetector.dispose();
@@ -203,4 +697,13 @@ export function deactivate() {
     if (statusBarManager) {
         statusBarManager.dispose();
     }
+    if (commitTimelineProvider) {
+        commitTimelineProvider.dispose();
+    }
+    if (typingCalibration) {
+        typingCalibration.dispose();
+    }
+    if (repositoryRegistry) {
+        repositoryRegistry.dispose();
+    }
 }
\ No newline at end of file
@@ -1,21 +1,148 @@
 import * as vscode from 'vscode';
 import { simpleGit, SimpleGit, StatusResult } from 'simple-git';
 import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { ChangeDescription, DiffAnalyzer } from './diffAnalyzer';
+import { WorkspaceScopeResolver } from './workspaceScopes';
+import { CommitTemplate, DEFAULT_COMMIT_TEMPLATE, TemplateValues } from './commitTemplate';
+import { CommitlintValidator } from './commitlint';
+import { ExcludeMatcher, ExcludeRule } from './excludeMatcher';
+import { Glob } from './glob';
+import { SecretFinding, SecretScanner } from './secretScanner';
+import { CommitMessageGenerator, CursorCommandProvider, HeuristicProvider, OpenAICompatibleProvider } from './commitMessageProviders';
 
 export interface CommitResult {
     success: boolean;
     message: string;
     error?: string;
     hash?: string;
+    ref?: string; // set when the commit was written to a private ref instead of the current branch
+    blocked?: boolean; // set when a policy check (e.g. commitlint) refused the commit
+    secrets?: SecretFinding[]; // possible secrets that were left out of or blocked the commit
+    hookOutput?: string; // everything `git commit` and its hooks printed
+}
+
+/** Detection details recorded alongside an AI commit. */
+export interface AIProvenance {
+    confidence?: number; // 0-1
+    wpm?: number; // peak typing speed behind the detection
+}
+
+export interface BlameLine {
+    hash: string;
+    author: string;
+    boundary: boolean; // true when the line predates the blamed revision range
+}
+
+/**
+ * How an auto-commit is undone:
+ * - `soft`: drop the commit and keep its changes staged
+ * - `hard`: drop the commit and discard its changes, keeping unrelated work
+ * - `revert`: add a new commit that undoes it
+ */
+export type RevertStrategy = 'soft' | 'hard' | 'revert';
+
+export type SessionFinishStrategy = 'squash' | 'rebase' | 'discard';
+
+/** A branch holding one AI session's commits, forked from `base`. */
+export interface AISessionBranch {
+    branch: string;
+    base: string;
+}
+
+export interface RevertResult {
+    success: boolean;
+    strategy: RevertStrategy; // the strategy actually used, after any fallback
+    fallbackReason?: string;
+    error?: string;
+}
+
+export interface CommitSummary {
+    hash: string;
+    date: string;
+    author: string;
+    message: string;
+    isAI: boolean; // made by the AI identity or carries an AI-Assisted trailer
+}
+
+export interface ShadowSnapshot {
+    hash: string;
+    date: string;
+    author: string;
+    message: string;
+}
+
+const SHADOW_REF_PREFIX = 'refs/cursor-git/';
+const NOTES_REF = 'cursor-git';
+
+/** Zero-based, inclusive line range in the working tree version of a file. */
+export interface LineRange {
+    startLine: number;
+    endLine: number;
+}
+
+interface DiffHunk {
+    oldStart: number;
+    oldCount: number;
+    newStart: number;
+    newCount: number;
+    lines: string[];
 }
 
 export class GitManager {
     private git: SimpleGit;
     private workspaceRoot: string;
+    private messageGenerator: CommitMessageGenerator;
+    private scopeResolver: WorkspaceScopeResolver;
+    private commitlint: CommitlintValidator;
 
-    constructor() {
-        this.workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+    constructor(workspaceRoot?: string) {
+        this.workspaceRoot = workspaceRoot ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
         this.git = simpleGit(this.workspaceRoot);
+        this.scopeResolver = new WorkspaceScopeResolver(this.workspaceRoot);
+        this.commitlint = new CommitlintValidator(this.workspaceRoot);
+        this.messageGenerator = new CommitMessageGenerator([
+            new CursorCommandProvider(),
+            new OpenAICompatibleProvider(),
+            new HeuristicProvider(context => this.generateHeuristicCommitMessage(context.files, this.git, context.provenance))
+        ]);
+    }
+
+    getWorkspaceRoot(): string {
+        return this.workspaceRoot;
+    }
+
+    /**
+     * Finds the top level of the nearest repository enclosing the given path,
+     * which may be a nested repository or a submodule rather than the workspace
+     * root. Returns null when the path isn't inside a repository.
+     */
+    static async resolveRepositoryRoot(fsPath: string): Promise<string | null> {
+        try {
+            // Deleted files and directories no longer exist, so walk up to the nearest one that does
+            let directory = path.dirname(fsPath);
+            while (!fs.existsSync(directory) && path.dirname(directory) !== directory) {
+                directory = path.dirname(directory);
+            }
+
+            const root = (await simpleGit(directory).revparse(['--show-toplevel'])).trim();
+            return root ? path.resolve(root) : null;
+        } catch (error) {
+            console.log(`No repository found for ${fsPath}`);
+            return null;
+        }
+    }
+
+    /** Returns the working tree of the superproject when this repository is a submodule. */
+    async getSuperprojectRoot(): Promise<string | null> {
+        try {
+            const root = (await this.git.revparse(['--show-superproject-working-tree'])).trim();
+            return root ? path.resolve(root) : null;
+        } catch (error) {
+            console.error('Error getting superproject:', error);
+            return null;
+        }
     }
 
     async getStatus(): Promise<StatusResult> {
@@ -48,7 +175,13 @@ export class GitManager {
         try {
             const config = vscode.workspace.getConfiguration('cursorGit');
             const suffix = config.get('aiAuthorSuffix', '(agent)');
+            const strategy = config.get<string>('provenanceStrategy', 'authorSuffix');
             const currentAuthor = await this.getCurrentAuthor();
+
+            // With trailers the provenance lives in the message, so the real author is kept
+            if (strategy === 'trailers') {
+                return currentAuthor;
+            }
             
             return {
                 name: `${currentAuthor.name} ${suffix}`,
@@ -63,6 +196,80 @@ export class GitManager {
         }
     }
 
+    /** True when the author name carries the AI suffix that getAIAuthor adds. */
+    isAIAuthorName(name: string): boolean {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const suffix = config.get<string>('aiAuthorSuffix', '(agent)');
+        return !!suffix && name.trim().endsWith(suffix);
+    }
+
+    async listTrackedFiles(revision: string = 'HEAD', pathFilter?: string): Promise<string[]> {
+        try {
+            const args = ['ls-tree', '-r', '--name-only', revision];
+            if (pathFilter) {
+                args.push('--', pathFilter);
+            }
+            const output = await this.git.raw(args);
+            return output.split('\n').filter(line => line.trim());
+        } catch (error) {
+            console.error('Error listing tracked files:', error);
+            return [];
+        }
+    }
+
+    /** Blames every line of a file at a revision or revision range. */
+    async blameLines(file: string, revision: string = 'HEAD'): Promise<BlameLine[]> {
+        try {
+            const output = await this.git.raw(['blame', '--line-porcelain', '--root', revision, '--', file]);
+            const lines: BlameLine[] = [];
+            let current: BlameLine | null = null;
+            for (const line of output.split('\n')) {
+                if (line.startsWith('\t')) {
+                    if (current) {
+                        lines.push(current);
+                    }
+                    current = null;
+                } else if (!current) {
+                    const match = line.match(/^([0-9a-f]{40}) /);
+                    if (match) {
+                        current = { hash: match[1], author: '', boundary: false };
+                    }
+                } else if (line.startsWith('author ')) {
+                    current.author = line.substring('author '.length);
+                } else if (line === 'boundary') {
+                    current.boundary = true;
+                }
+            }
+            return lines;
+        } catch (error) {
+            console.error(`Error blaming ${file}:`, error);
+            return [];
+        }
+    }
+
+    /** Returns the subset of commits that carry an `AI-Assisted: true` trailer. */
+    async getAIAssistedCommits(hashes: string[]): Promise<Set<string>> {
+        const aiCommits = new Set<string>();
+        const batchSize = 100;
+        for (let i = 0; i < hashes.length; i += batchSize) {
+            try {
+                const output = await this.git.raw([
+                    'show', '-s', '--format=%H%x1f%(trailers:key=AI-Assisted,valueonly,separator=%x2c)',
+                    ...hashes.slice(i, i + batchSize)
+                ]);
+                for (const line of output.split('\n')) {
+                    const [hash, value] = line.split('\x1f');
+                    if (hash && value && value.split(',').some(v => v.trim().toLowerCase() === 'true')) {
+                        aiCommits.add(hash.trim());
+                    }
+                }
+            } catch (error) {
+                console.error('Error reading AI trailers:', error);
+            }
+        }
+        return aiCommits;
+    }
+
     async getModifiedFiles(): Promise<string[]> {
         try {
             const status = await this.getStatus();
@@ -78,6 +285,37 @@ export class GitManager {
         }
     }
 
+    /**
+     * Returns the subset of the given files that currently have changes in the
+     * working tree or index. Paths may be absolute or relative to the repository
+     * root; the result is always repository-relative. Untracked files are
+     * included so that files newly created by the AI can be committed.
+     */
+    async getChangedFilesAmong(files: string[]): Promise<string[]> {
+        try {
+            const status = await this.getStatus();
+            const wanted = new Set(this.toRepoPaths(files));
+            const changed = [
+                ...status.modified,
+                ...status.created,
+                ...status.renamed.map(r => r.to),
+                ...status.deleted,
+                ...status.not_added
+            ];
+            return [...new Set(changed)].filter(file => wanted.has(file));
+        } catch (error) {
+            console.error('Error getting changed files:', error);
+            return [];
+        }
+    }
+
+    private toRepoPaths(files: string[]): string[] {
+        return files.map(file => {
+            const relative = path.isAbsolute(file) ? path.relative(this.workspaceRoot, file) : file;
+            return relative.split(path.sep).join('/');
+        });
+    }
+
     async stageFiles(files: string[]): Promise<boolean> {
         try {
             if (files.length === 0) {
@@ -85,9 +323,7 @@ export class GitManager {
             }
 
             // Filter out files that match exclude patterns
-            const config = vscode.workspace.getConfiguration('cursorGit');
-            const excludePatterns = config.get<string[]>('excludePatterns', []);
-            const filteredFiles = this.filterExcludedFiles(files, excludePatterns);
+            const filteredFiles = this.filterExcludedFiles(files);
 
             if (filteredFiles.length === 0) {
                 console.log('No files to stage after filtering');
@@ -103,30 +339,502 @@ export class GitManager {
         }
     }
 
-    async commitChanges(customMessage?: string): Promise<CommitResult> {
+    /**
+     * Stages only the hunks of each file that overlap the given AI-authored line
+     * ranges. Files without ranges, or whose hunks can't be mapped unambiguously,
+     * are staged whole.
+     */
+    async stageAIChanges(files: string[], aiRanges: Map<string, LineRange[]>): Promise<boolean> {
         try {
-            const status = await this.getStatus();
-            const stagedFiles = status.staged;
+            const filteredFiles = this.filterExcludedFiles(files);
+
+            const rangesByPath = new Map<string, LineRange[]>();
+            for (const [file, ranges] of aiRanges) {
+                rangesByPath.set(this.toRepoPaths([file])[0], ranges);
+            }
+
+            const wholeFiles: string[] = [];
+            for (const file of filteredFiles) {
+                const ranges = rangesByPath.get(file);
+                if (!ranges || ranges.length === 0 || !(await this.stageHunks(file, ranges))) {
+                    wholeFiles.push(file);
+                }
+            }
+
+            return await this.stageFiles(wholeFiles);
+        } catch (error) {
+            console.error('Error staging AI changes:', error);
+            return false;
+        }
+    }
+
+    private async stageHunks(file: string, ranges: LineRange[]): Promise<boolean> {
+        try {
+            const diff = await this.git.diff(['-U0', '--no-color', '--', file]);
+            const selection = this.selectAIHunks(file, diff, ranges);
+            if (!selection) {
+                return false;
+            }
+
+            if (selection.selected === selection.total) {
+                await this.git.add([file]);
+                return true;
+            }
+
+            await this.applyZeroContextPatch(this.git, selection.patch);
+            console.log(`Staged ${selection.selected} of ${selection.total} hunks in ${file}`);
+            return true;
+        } catch (error) {
+            console.error(`Error staging hunks for ${file}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Picks the hunks of a zero-context diff that touch the AI ranges and
+     * builds a patch of just those. Returns null when the file has to be
+     * staged whole instead.
+     */
+    private selectAIHunks(file: string, diff: string, ranges: LineRange[]): {patch: string, selected: number, total: number} | null {
+        const parsed = this.parseZeroContextDiff(diff);
+        if (!parsed || parsed.hunks.length === 0) {
+            return null;
+        }
+
+        const selected: DiffHunk[] = [];
+        for (const hunk of parsed.hunks) {
+            const overlap = this.countOverlappingLines(hunk, ranges);
+            if (overlap === 0) {
+                continue;
+            }
+            // A hunk that mixes AI and non-AI lines can't be split safely
+            if (hunk.newCount > 0 && overlap < hunk.newCount) {
+                console.log(`Ambiguous hunk mapping for ${file}, staging whole file`);
+                return null;
+            }
+            selected.push(hunk);
+        }
+
+        if (selected.length === 0) {
+            console.log(`No hunks in ${file} match the AI ranges, staging whole file`);
+            return null;
+        }
+        return { patch: this.buildPartialPatch(parsed.header, selected), selected: selected.length, total: parsed.hunks.length };
+    }
+
+    private async applyZeroContextPatch(git: SimpleGit, patch: string): Promise<void> {
+        const patchFile = path.join(os.tmpdir(), `cursor-git-${process.pid}-${Date.now()}.patch`);
+        fs.writeFileSync(patchFile, patch);
+        try {
+            await git.raw(['apply', '--cached', '--unidiff-zero', '--whitespace=nowarn', patchFile]);
+        } finally {
+            fs.unlinkSync(patchFile);
+        }
+    }
+
+    /** Diffs two blobs as if they were two versions of `file`; git names them by hash otherwise. */
+    private async diffBlobs(git: SimpleGit, file: string, from: string, to: string, options: string[] = []): Promise<string> {
+        const diff = await git.raw(['diff', '--no-color', '--no-ext-diff', ...options, from, to]);
+        return diff
+            .split(`a/${from}`).join(`a/${file}`)
+            .split(`b/${to}`).join(`b/${file}`);
+    }
+
+    private parseZeroContextDiff(diff: string): {header: string[], hunks: DiffHunk[]} | null {
+        if (!diff) {
+            return null;
+        }
+
+        const lines = diff.split('\n');
+        if (lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+
+        const header: string[] = [];
+        const hunks: DiffHunk[] = [];
+        for (const line of lines) {
+            const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+            if (match) {
+                hunks.push({
+                    oldStart: parseInt(match[1], 10),
+                    oldCount: match[2] === undefined ? 1 : parseInt(match[2], 10),
+                    newStart: parseInt(match[3], 10),
+                    newCount: match[4] === undefined ? 1 : parseInt(match[4], 10),
+                    lines: []
+                });
+            } else if (hunks.length > 0) {
+                hunks[hunks.length - 1].lines.push(line);
+            } else {
+                header.push(line);
+            }
+        }
+
+        // New, deleted, renamed and binary files are staged whole
+        const unsupported = /^(new file mode|deleted file mode|rename from|Binary files|GIT binary patch)/;
+        if (header.filter(l => l.startsWith('diff --git')).length !== 1 || header.some(l => unsupported.test(l))) {
+            return null;
+        }
+
+        return { header, hunks };
+    }
+
+    private countOverlappingLines(hunk: DiffHunk, ranges: LineRange[]): number {
+        if (hunk.newCount === 0) {
+            // Pure deletion: the removed lines sat just after newStart (1-based)
+            const position = hunk.newStart;
+            return ranges.some(r => r.startLine <= position && r.endLine >= position - 1) ? 1 : 0;
+        }
+
+        let overlap = 0;
+        for (let line = hunk.newStart - 1; line < hunk.newStart - 1 + hunk.newCount; line++) {
+            if (ranges.some(r => line >= r.startLine && line <= r.endLine)) {
+                overlap++;
+            }
+        }
+        return overlap;
+    }
+
+    private buildPartialPatch(header: string[], hunks: DiffHunk[]): string {
+        // git apply locates zero-context hunks by their new-side position, so it
+        // has to be recomputed as if the skipped hunks never existed
+        let delta = 0;
+        const body: string[] = [];
+        for (const hunk of hunks) {
+            const newStart = hunk.oldStart + delta
+                + (hunk.oldCount === 0 ? 1 : 0)
+                - (hunk.newCount === 0 ? 1 : 0);
+            body.push(`@@ -${hunk.oldStart},${hunk.oldCount} +${newStart},${hunk.newCount} @@`);
+            body.push(...hunk.lines);
+            delta += hunk.newCount - hunk.oldCount;
+        }
+        return [...header, ...body].join('\n') + '\n';
+    }
+
+    /**
+     * Runs `git commit` as `hookMode` says: with hooks, with `--no-verify`, or
+     * with hooks and one retry after applying the hooks' own rewrites of the
+     * committed files to the index. All output is captured. When the commit still fails, the index is reset to
+     * exactly what was staged before, whatever the hooks did to it. `indexFile`
+     * commits from a temporary index instead of the real one.
+     */
+    private async runCommit(
+        message: string,
+        author: string,
+        stagedFiles: string[],
+        indexFile?: string
+    ): Promise<{hash?: string, output: string, error?: string}> {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const hookMode = config.get<string>('hookMode', 'run');
+        const indexGit = indexFile ? this.gitWithIndex(indexFile) : this.git;
+        const stagedTree = (await indexGit.raw(['write-tree'])).trim();
+        const worktreeBefore = hookMode === 'retry' ? await this.hashWorktreeFiles(indexGit, stagedFiles) : new Map<string, string>();
+        const output: string[] = [];
+
+        const attempt = async (): Promise<string | undefined> => {
+            const chunks: Buffer[] = [];
+            const git = (indexFile ? this.gitWithIndex(indexFile) : simpleGit(this.workspaceRoot)).outputHandler((_command, stdout, stderr) => {
+                stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+                stderr.on('data', (chunk: Buffer) => chunks.push(chunk));
+            });
+            try {
+                await git.raw(['commit', ...(hookMode === 'skip' ? ['--no-verify'] : []), `--author=${author}`, '-m', message]);
+                return undefined;
+            } catch (error) {
+                return error instanceof Error ? error.message.trim() : String(error);
+            } finally {
+                output.push(Buffer.concat(chunks).toString('utf8'));
+            }
+        };
+
+        let error = await attempt();
+        const hookDelta = error && hookMode === 'retry' ? await this.getHookDelta(indexGit, worktreeBefore) : '';
+        if (hookDelta) {
+            // A formatter in the hook rewrote the files - stage just its fixes and try once more,
+            // so hunks and buffer contents that were left out stay out
+            const patchFile = path.join(os.tmpdir(), `cursor-git-${process.pid}-${Date.now()}.patch`);
+            fs.writeFileSync(patchFile, hookDelta);
+            try {
+                await indexGit.raw(['apply', '--cached', '--whitespace=nowarn', patchFile]);
+                output.push('Hooks modified staged files; staged their changes and retrying once\n');
+                error = await attempt();
+            } catch (applyError) {
+                output.push('Hooks modified staged files, but their changes do not apply to what was staged; not retrying\n');
+            } finally {
+                fs.unlinkSync(patchFile);
+            }
+        }
+
+        if (error) {
+            await indexGit.raw(['read-tree', stagedTree]);
+            console.error('Commit failed, index restored to the staged state:', error);
+            return { output: output.join(''), error: `git commit failed: ${error}` };
+        }
+        return { hash: (await this.git.revparse(['HEAD'])).trim(), output: output.join('') };
+    }
+
+    /** Writes the working tree copies of `files` as blobs, keyed by path; missing files are skipped. */
+    private async hashWorktreeFiles(git: SimpleGit, files: string[]): Promise<Map<string, string>> {
+        const existing = files.filter(file => fs.existsSync(path.join(this.workspaceRoot, file)));
+        const hashes = new Map<string, string>();
+        if (existing.length === 0) {
+            return hashes;
+        }
+        const blobs = (await git.raw(['hash-object', '-w', '--', ...existing])).trim().split('\n');
+        existing.forEach((file, index) => hashes.set(file, blobs[index]));
+        return hashes;
+    }
+
+    /**
+     * Builds a patch of what changed in the working tree since `before` was
+     * hashed, i.e. what the hooks rewrote. A file the hooks deleted can't be
+     * expressed against the staged content, so it yields no patch at all.
+     */
+    private async getHookDelta(git: SimpleGit, before: Map<string, string>): Promise<string> {
+        const after = await this.hashWorktreeFiles(git, [...before.keys()]);
+        if (after.size !== before.size) {
+            return '';
+        }
+
+        const patches: string[] = [];
+        for (const [file, blob] of before) {
+            const rewritten = after.get(file)!;
+            if (rewritten === blob) {
+                continue;
+            }
+            patches.push(await this.diffBlobs(git, file, blob, rewritten));
+        }
+        return patches.join('');
+    }
+
+    /**
+     * Scans what is staged in `git`'s index for secrets. Depending on
+     * `secretScanning`, files with findings are unstaged so the rest can still
+     * be committed, or the whole commit is aborted. An error is returned when
+     * the commit must not go ahead.
+     */
+    private async enforceSecretScan(git: SimpleGit): Promise<{findings: SecretFinding[], error?: string}> {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const mode = config.get<string>('secretScanning', 'unstage');
+        if (mode === 'off') {
+            return { findings: [] };
+        }
+
+        const diff = await git.raw(['diff', '--cached', '--unified=0', '--no-color', '--no-ext-diff']);
+        const findings = SecretScanner.load(this.workspaceRoot).scan(diff);
+        if (findings.length === 0) {
+            return { findings };
+        }
+
+        const locations = findings.map(f => `${f.file}:${f.line} (${f.description})`).join(', ');
+        if (mode === 'abort') {
+            return { findings, error: `Possible secrets staged: ${locations}` };
+        }
+
+        const files = [...new Set(findings.map(f => f.file))];
+        await this.unstage(git, files);
+        console.warn(`Unstaged files with possible secrets: ${files.join(', ')}`);
+
+        const remaining = (await git.raw(['diff', '--cached', '--name-only'])).trim();
+        return remaining
+            ? { findings }
+            : { findings, error: `Possible secrets found, nothing left to commit: ${locations}` };
+    }
+
+    /** Resets `files` in `git`'s index to HEAD, or drops them when there is no HEAD yet. */
+    private async unstage(git: SimpleGit, files: string[]): Promise<void> {
+        const hasHead = !!(await this.resolveRevision('HEAD'));
+        await git.raw(hasHead ? ['reset', '-q', '--', ...files] : ['rm', '--cached', '-q', '--ignore-unmatch', '--', ...files]);
+    }
+
+    /** A git instance that reads and writes `indexFile` instead of the real index. */
+    private gitWithIndex(indexFile: string, env: Record<string, string> = {}): SimpleGit {
+        return simpleGit(this.workspaceRoot).env({ ...process.env, GIT_INDEX_FILE: indexFile, ...env });
+    }
+
+    /** Reads the real index entries of `files` as "mode,blob", keyed by path; files not in the index are left out. */
+    private async readIndexEntries(files: string[]): Promise<Map<string, string>> {
+        const entries = new Map<string, string>();
+        const listing = files.length > 0 ? await this.git.raw(['ls-files', '-s', '-z', '--', ...files]) : '';
+        for (const record of listing.split('\0').filter(Boolean)) {
+            const [info, file] = record.split('\t');
+            const [mode, blob] = info.split(' ');
+            entries.set(file, `${mode},${blob}`);
+        }
+        return entries;
+    }
+
+    /** Writes `entries` for `files` into `git`'s index, removing the files that have no entry. */
+    private async writeIndexEntries(git: SimpleGit, files: string[], entries: Map<string, string>): Promise<void> {
+        for (const file of files) {
+            const entry = entries.get(file);
+            await git.raw(entry
+                ? ['update-index', '--add', '--cacheinfo', `${entry},${file}`]
+                : ['update-index', '--force-remove', '--', file]);
+        }
+    }
+
+    /**
+     * Fills the temporary index at `indexFile` with HEAD plus the real index's
+     * entries for `files`, so a commit from it leaves out whatever else the
+     * user has staged. Returns the paths that differ from HEAD.
+     */
+    private async buildCommitIndex(indexFile: string, files: string[]): Promise<string[]> {
+        const indexGit = this.gitWithIndex(indexFile);
+        const head = await this.resolveRevision('HEAD');
+        await indexGit.raw(head ? ['read-tree', head] : ['read-tree', '--empty']);
+        await this.writeIndexEntries(indexGit, files, await this.readIndexEntries(files));
+
+        return (await indexGit.raw(['diff', '--cached', '--name-only', '-z'])).split('\0').filter(Boolean);
+    }
+
+    /**
+     * Checks a message against the workspace's commitlint rules. Failing
+     * messages are repaired when `commitlint` is `repair`; otherwise, or when
+     * the repair still fails, the returned error explains why the commit is
+     * blocked.
+     */
+    private async enforceCommitlint(message: string): Promise<{message: string, error?: string}> {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const mode = config.get<string>('commitlint', 'repair');
+        if (mode === 'off') {
+            return { message };
+        }
+
+        const rules = await this.commitlint.loadRules();
+        if (!rules) {
+            return { message };
+        }
+
+        const errorsOf = (candidate: string) => this.commitlint.validate(candidate, rules).filter(v => v.level >= 2);
+        const violations = this.commitlint.validate(message, rules);
+        violations.filter(v => v.level < 2).forEach(v => console.warn(`commitlint warning (${v.rule}): ${v.message}`));
+        let errors = violations.filter(v => v.level >= 2);
+        if (errors.length === 0) {
+            return { message };
+        }
+
+        if (mode === 'repair') {
+            const repaired = this.commitlint.repair(message, rules);
+            errors = errorsOf(repaired);
+            if (errors.length === 0) {
+                console.log(`Repaired commit message to satisfy commitlint: ${repaired.split('\n')[0]}`);
+                return { message: repaired };
+            }
+        }
+
+        return {
+            message,
+            error: `Commit message "${message.split('\n')[0]}" fails commitlint: ${errors.map(v => `${v.rule} (${v.message})`).join('; ')}`
+        };
+    }
+
+    /**
+     * Appends the AI provenance trailers (`AI-Assisted`, `AI-Tool`,
+     * `Detection-Confidence` and an optional `Co-authored-by`) as the final
+     * paragraph of the message, where `git interpret-trailers` can parse them.
+     */
+    private addProvenanceTrailers(message: string, provenance?: AIProvenance): string {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        if (config.get<string>('provenanceStrategy', 'authorSuffix') !== 'trailers') {
+            return message;
+        }
+
+        const trailers = [
+            'AI-Assisted: true',
+            `AI-Tool: ${config.get<string>('aiToolName', 'cursor')}`
+        ];
+        if (provenance?.confidence !== undefined) {
+            trailers.push(`Detection-Confidence: ${provenance.confidence.toFixed(2)}`);
+        }
+        const coAuthor = config.get<string>('aiCoAuthor', '').trim();
+        if (coAuthor) {
+            trailers.push(`Co-authored-by: ${coAuthor}`);
+        }
+
+        return `${message.trimEnd()}\n\n${trailers.join('\n')}`;
+    }
+
+    /**
+     * Commits what is staged. When `files` is given only those paths are
+     * committed, from a temporary index, and anything else the user has
+     * staged stays staged for them.
+     */
+    async commitChanges(customMessage?: string, files?: string[], provenance?: AIProvenance): Promise<CommitResult> {
+        const tempIndex = files ? path.join(os.tmpdir(), `cursor-git-index-${process.pid}-${Date.now()}`) : undefined;
+        try {
+            const repoFiles = files ? this.toRepoPaths(files) : [];
+            if (tempIndex) {
+                await this.buildCommitIndex(tempIndex, repoFiles);
+            }
+            const commitGit = tempIndex ? this.gitWithIndex(tempIndex) : this.git;
+
+            // Scan before generating the message so secrets never reach an AI provider
+            const secretScan = await this.enforceSecretScan(commitGit);
+            if (secretScan.error) {
+                return {
+                    success: false,
+                    message: '',
+                    error: secretScan.error,
+                    blocked: true,
+                    secrets: secretScan.findings
+                };
+            }
+            if (tempIndex && secretScan.findings.length > 0) {
+                // Keep flagged files out of the user's next commit as well
+                await this.unstage(this.git, [...new Set(secretScan.findings.map(f => f.file))]);
+            }
+
+            const stagedFiles = tempIndex
+                ? (await commitGit.raw(['diff', '--cached', '--name-only', '-z'])).split('\0').filter(Boolean)
+                : (await this.getStatus()).staged;
 
             if (stagedFiles.length === 0) {
                 return {
                     success: false,
                     message: 'No staged changes to commit',
-                    error: 'No staged changes'
+                    error: 'No staged changes',
+                    secrets: secretScan.findings
                 };
             }
 
-            const message = customMessage || await this.generateCommitMessage(stagedFiles);
+            const lint = await this.enforceCommitlint(customMessage || await this.generateCommitMessage(stagedFiles, provenance, commitGit));
+            if (lint.error) {
+                return {
+                    success: false,
+                    message: '',
+                    error: lint.error,
+                    blocked: true
+                };
+            }
+            const message = lint.message;
             const aiAuthor = await this.getAIAuthor();
-            
-            const commitResult = await this.git.commit(message, undefined, {
-                '--author': `${aiAuthor.name} <${aiAuthor.email}>`
-            });
-            
+
+            const commit = await this.runCommit(
+                this.addProvenanceTrailers(message, provenance),
+                `${aiAuthor.name} <${aiAuthor.email}>`,
+                stagedFiles,
+                tempIndex
+            );
+            if (commit.error) {
+                return {
+                    success: false,
+                    message: '',
+                    error: commit.error,
+                    secrets: secretScan.findings,
+                    hookOutput: commit.output
+                };
+            }
+            if (tempIndex) {
+                // The real index still holds the committed entries; line them up with the new HEAD
+                await this.git.raw(['reset', '-q', '--', ...stagedFiles]);
+            }
+
             return {
                 success: true,
                 message: message,
-                hash: commitResult.commit
+                hash: commit.hash,
+                secrets: secretScan.findings,
+                hookOutput: commit.output
             };
         } catch (error) {
             console.error('Error committing changes:', error);
@@ -135,14 +843,37 @@ export class GitManager {
                 message: '',
                 error: error instanceof Error ? error.message : 'Unknown error'
             };
+        } finally {
+            if (tempIndex && fs.existsSync(tempIndex)) {
+                fs.unlinkSync(tempIndex);
+            }
         }
     }
 
-    async stageAndCommit(customMessage?: string): Promise<CommitResult> {
+    /**
+     * Stages and commits changes. When `files` is given only those paths are
+     * staged and considered for the commit; every other dirty file is left alone.
+     * When `aiRanges` is also given (keyed like `files`), only the hunks touching
+     * those ranges are staged if hunk staging is enabled. `buffers` holds the
+     * contents of unsaved documents, which are committed instead of the disk copy.
+     * When the commit doesn't happen, the index entries of those files are put
+     * back the way they were before staging.
+     */
+    async stageAndCommit(
+        customMessage?: string,
+        files?: string[],
+        aiRanges?: Map<string, LineRange[]>,
+        provenance?: AIProvenance,
+        buffers?: Map<string, string>
+    ): Promise<CommitResult> {
+        let restoreIndex: (() => Promise<void>) | null = null;
         try {
-            const modifiedFiles = await this.getModifiedFiles();
+            const bufferContents = this.normalizeBuffers(buffers);
+            const modifiedFiles = (files
+                ? await this.getChangedFilesAmong(files)
+                : await this.getModifiedFiles()).filter(file => !bufferContents.has(file));
             
-            if (modifiedFiles.length === 0) {
+            if (modifiedFiles.length === 0 && bufferContents.size === 0) {
                 return {
                     success: false,
                     message: 'No changes to commit',
@@ -150,23 +881,37 @@ export class GitManager {
                 };
             }
 
+            const touchedFiles = [...modifiedFiles, ...bufferContents.keys()];
+            const indexBefore = await this.readIndexEntries(touchedFiles);
+            restoreIndex = () => this.writeIndexEntries(this.git, touchedFiles, indexBefore);
+
             const config = vscode.workspace.getConfiguration('cursorGit');
             const autoStage = config.get('autoStage', true);
 
             if (autoStage) {
-                const staged = await this.stageFiles(modifiedFiles);
+                const hunkStaging = config.get<boolean>('hunkStaging', true);
+                const staged = hunkStaging && aiRanges
+                    ? await this.stageAIChanges(modifiedFiles, aiRanges)
+                    : await this.stageFiles(modifiedFiles);
                 if (!staged) {
+                    await restoreIndex();
                     return {
                         success: false,
                         message: '',
                         error: 'Failed to stage files'
                     };
                 }
+                await this.stageBufferContents(this.git, bufferContents, hunkStaging ? aiRanges : undefined);
             }
 
-            return await this.commitChanges(customMessage);
+            const result = await this.commitChanges(customMessage, files ? touchedFiles : undefined, provenance);
+            if (!result.success) {
+                await restoreIndex();
+            }
+            return result;
         } catch (error) {
             console.error('Error in stage and commit:', error);
+            await restoreIndex?.().catch(restoreError => console.error('Error restoring the index:', restoreError));
             return {
                 success: false,
                 message: '',
@@ -175,74 +920,274 @@ export class GitManager {
         }
     }
 
-    private async generateCommitMessage(files: string[]): Promise<string> {
-        const config = vscode.workspace.getConfiguration('cursorGit');
-        const useCursorAI = config.get<boolean>('useCursorAI', true);
+    private normalizeBuffers(buffers?: Map<string, string>): Map<string, string> {
+        const normalized = new Map<string, string>(); // repo path -> content
+        if (!buffers) {
+            return normalized;
+        }
 
-        if (useCursorAI) {
-            try {
-                // Use Cursor's native AI commit message generation
-                return await this.generateCursorCommitMessage();
-            } catch (error) {
-                console.error('Cursor AI commit generation failed:', error);
-                // Fall back to heuristic method
+        for (const [file, content] of buffers) {
+            const [repoPath] = this.toRepoPaths([file]);
+            if (this.filterExcludedFiles([repoPath]).length > 0) {
+                normalized.set(repoPath, content);
             }
         }
+        return normalized;
+    }
+
+    /**
+     * Writes unsaved document contents straight into an index as blobs, so AI
+     * edits can be committed without touching the files on disk. With
+     * `aiRanges` (keyed by file system path), only the hunks touching those
+     * ranges are staged, as for saved files.
+     */
+    private async stageBufferContents(git: SimpleGit, buffers: Map<string, string>, aiRanges?: Map<string, LineRange[]>): Promise<void> {
+        const rangesByPath = new Map<string, LineRange[]>();
+        for (const [file, ranges] of aiRanges || []) {
+            rangesByPath.set(this.toRepoPaths([file])[0], ranges);
+        }
+
+        for (const [file, content] of buffers) {
+            const blobFile = path.join(os.tmpdir(), `cursor-git-blob-${process.pid}-${Date.now()}`);
+            fs.writeFileSync(blobFile, content);
+            try {
+                const blob = (await git.raw(['hash-object', '-w', `--path=${file}`, blobFile])).trim();
+                const entry = (await git.raw(['ls-files', '-s', '--', file])).trim();
+                const ranges = rangesByPath.get(file);
+                if (entry && ranges && ranges.length > 0) {
+                    const diff = await this.diffBlobs(git, file, entry.split(' ')[1], blob, ['-U0']);
+                    const selection = this.selectAIHunks(file, diff, ranges);
+                    if (selection && selection.selected < selection.total) {
+                        await this.applyZeroContextPatch(git, selection.patch);
+                        console.log(`Staged ${selection.selected} of ${selection.total} hunks of the unsaved contents of ${file}`);
+                        continue;
+                    }
+                }
 
-        // Fallback to heuristic method
-        return this.generateHeuristicCommitMessage(files);
+                const mode = entry ? entry.split(' ')[0] : '100644';
+                await git.raw(['update-index', '--add', '--cacheinfo', `${mode},${blob},${file}`]);
+                console.log(`Staged unsaved contents of ${file}`);
+            } finally {
+                fs.unlinkSync(blobFile);
+            }
+        }
     }
 
-    private async generateCursorCommitMessage(): Promise<string> {
+    /**
+     * Records the given files as a snapshot commit on a private ref
+     * (`refs/cursor-git/<branch>`) using plumbing on a temporary index, so the
+     * user's index, HEAD and working tree are left exactly as they were.
+     *
+     * Each snapshot's first parent is the previous snapshot and, once one
+     * exists, its second parent is HEAD at the time, so the snapshot can be
+     * cherry-picked against the branch it was taken on.
+     */
+    async recordShadowSnapshot(
+        files: string[],
+        customMessage?: string,
+        provenance?: AIProvenance,
+        buffers?: Map<string, string>
+    ): Promise<CommitResult> {
+        const tempIndex = path.join(os.tmpdir(), `cursor-git-index-${process.pid}-${Date.now()}`);
         try {
-            // First, ensure files are staged
-            const status = await this.getStatus();
-            if (status.staged.length === 0) {
-                // Stage the modified files
-                const modifiedFiles = await this.getModifiedFiles();
-                if (modifiedFiles.length === 0) {
-                    throw new Error('No modified files to stage');
-                }
-                await this.stageFiles(modifiedFiles);
+            const bufferContents = this.normalizeBuffers(buffers);
+            const changedFiles = await this.getChangedFilesAmong(files);
+            const snapshotFiles = this.filterExcludedFiles(changedFiles).filter(file => !bufferContents.has(file));
+
+            if (snapshotFiles.length === 0 && bufferContents.size === 0) {
+                return {
+                    success: false,
+                    message: 'No changes to commit',
+                    error: 'No modified files'
+                };
             }
 
-            console.log('Staged files for AI analysis:', status.staged);
+            const shadowRef = await this.getShadowRef();
+            const head = await this.resolveRevision('HEAD');
+            const previousSnapshot = await this.resolveRevision(shadowRef);
+            const aiAuthor = await this.getAIAuthor();
+
+            const indexGit = this.gitWithIndex(tempIndex, {
+                GIT_AUTHOR_NAME: aiAuthor.name,
+                GIT_AUTHOR_EMAIL: aiAuthor.email
+            });
 
-            // Check if we have actual changes by getting the diff
-            const diff = await this.getStagedDiff();
-            if (!diff || diff.trim().length === 0) {
-                throw new Error('No staged changes found for AI analysis. Please ensure files are staged and contain changes.');
+            await indexGit.raw(head ? ['read-tree', head] : ['read-tree', '--empty']);
+            if (snapshotFiles.length > 0) {
+                await indexGit.raw(['add', '-A', '--', ...snapshotFiles]);
             }
+            await this.stageBufferContents(indexGit, bufferContents);
 
-            console.log('Staged diff length:', diff.length);
+            const secretScan = await this.enforceSecretScan(indexGit);
+            if (secretScan.error) {
+                return {
+                    success: false,
+                    message: '',
+                    error: secretScan.error,
+                    blocked: true,
+                    secrets: secretScan.findings
+                };
+            }
+            const tree = (await indexGit.raw(['write-tree'])).trim();
 
-            // Try to execute the Cursor AI command
-            const result = await vscode.commands.executeCommand('cursor.generateGitCommitMessage');
-            
-            if (typeof result === 'string' && result.trim()) {
-                console.log('Cursor AI generated message:', result.trim());
-                return result.trim();
+            const base = previousSnapshot || head;
+            if (base && (await this.resolveRevision(`${base}^{tree}`)) === tree) {
+                return {
+                    success: false,
+                    message: 'No changes to commit',
+                    error: 'No modified files'
+                };
             }
 
-            // If the command doesn't return a string, it might not be available
-            throw new Error('Cursor AI command not available or returned no message');
-            
+            // The Cursor command reads the real index, so shadow snapshots use the heuristic on the temporary one
+            const lint = await this.enforceCommitlint(
+                customMessage || await this.generateHeuristicCommitMessage([...snapshotFiles, ...bufferContents.keys()], indexGit, provenance)
+            );
+            if (lint.error) {
+                return {
+                    success: false,
+                    message: '',
+                    error: lint.error,
+                    blocked: true
+                };
+            }
+            const message = lint.message;
+            const parents = (previousSnapshot ? [previousSnapshot, head] : [head])
+                .filter((p): p is string => !!p)
+                .flatMap(p => ['-p', p]);
+            const hash = (await indexGit.raw([
+                'commit-tree', tree, ...parents, '-m', this.addProvenanceTrailers(message, provenance)
+            ])).trim();
+
+            await this.git.raw(['update-ref', '-m', 'cursor-git: record AI snapshot', shadowRef, hash, ...(previousSnapshot ? [previousSnapshot] : [])]);
+            console.log(`Recorded AI snapshot ${hash} on ${shadowRef}`);
+
+            return {
+                success: true,
+                message: message,
+                hash: hash,
+                ref: shadowRef
+            };
         } catch (error) {
-            console.error('Error with Cursor AI commit generation:', error);
-            
-            // Check if it's a "No diffs found" error specifically
-            if (error instanceof Error && error.message.includes('No diffs found')) {
-                throw new Error('No staged changes found for AI analysis. Please ensure files are staged and contain changes.');
+            console.error('Error recording shadow snapshot:', error);
+            return {
+                success: false,
+                message: '',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        } finally {
+            if (fs.existsSync(tempIndex)) {
+                fs.unlinkSync(tempIndex);
             }
-            
-            throw error;
         }
     }
 
+    /** Attaches structured data to a commit as a note under `refs/notes/cursor-git`. */
+    async addCommitNote(hash: string, note: unknown): Promise<boolean> {
+        try {
+            await this.git.raw(['notes', `--ref=${NOTES_REF}`, 'add', '-f', '-m', JSON.stringify(note, null, 2), hash]);
+            return true;
+        } catch (error) {
+            console.error('Error adding commit note:', error);
+            return false;
+        }
+    }
+
+    async getCommitNote(hash: string): Promise<string | null> {
+        try {
+            const note = await this.git.raw(['notes', `--ref=${NOTES_REF}`, 'show', hash]);
+            return note.trim() || null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /** Returns the commit that last changed a zero-based line, or null when it's uncommitted. */
+    async getCommitForLine(file: string, line: number): Promise<string | null> {
+        try {
+            const [repoPath] = this.toRepoPaths([file]);
+            const output = await this.git.raw(['blame', '--porcelain', '-L', `${line + 1},${line + 1}`, '--', repoPath]);
+            const hash = output.split(' ')[0];
+            return hash && !/^0+$/.test(hash) ? hash : null;
+        } catch (error) {
+            console.error('Error blaming line:', error);
+            return null;
+        }
+    }
+
+    async getShadowRef(): Promise<string> {
+        const branch = (await this.git.raw(['rev-parse', '--abbrev-ref', 'HEAD']).catch(() => '')).trim();
+        return SHADOW_REF_PREFIX + (branch && branch !== 'HEAD' ? branch : 'detached');
+    }
 
-    private async getStagedDiff(): Promise<string> {
+    async getShadowHistory(maxCount: number = 50): Promise<ShadowSnapshot[]> {
         try {
-            const diff = await this.git.diff(['--cached']);
+            const shadowRef = await this.getShadowRef();
+            if (!(await this.resolveRevision(shadowRef))) {
+                return [];
+            }
+
+            const output = await this.git.raw([
+                'log', '--first-parent', `--max-count=${maxCount}`, '--format=%H%x1f%aI%x1f%an%x1f%s', shadowRef
+            ]);
+            return output.split('\n').filter(line => line.trim()).map(line => {
+                const [hash, date, author, message] = line.split('\x1f');
+                return { hash, date, author, message };
+            });
+        } catch (error) {
+            console.error('Error reading shadow history:', error);
+            return [];
+        }
+    }
+
+    /** Returns what the snapshot changed relative to the branch it was taken on. */
+    async getShadowSnapshotDiff(hash: string): Promise<string> {
+        const branchParent = await this.resolveRevision(`${hash}^2`);
+        const base = branchParent || await this.resolveRevision(`${hash}^`);
+        return base
+            ? await this.git.raw(['diff', '--stat', '--patch', base, hash])
+            : await this.git.raw(['show', '--stat', '--patch', '--format=', hash]);
+    }
+
+    async cherryPickShadowSnapshot(hash: string): Promise<CommitResult> {
+        try {
+            const args = (await this.resolveRevision(`${hash}^2`)) ? ['cherry-pick', '-m', '2', hash] : ['cherry-pick', hash];
+            await this.git.raw(args);
+            const newHash = await this.getLastCommit();
+            const message = (await this.git.raw(['log', '-1', '--format=%s', hash])).trim();
+            return {
+                success: true,
+                message: message,
+                hash: newHash || undefined
+            };
+        } catch (error) {
+            console.error('Error cherry-picking shadow snapshot:', error);
+            await this.git.raw(['cherry-pick', '--abort']).catch(() => undefined);
+            return {
+                success: false,
+                message: '',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    private async resolveRevision(revision: string): Promise<string | null> {
+        try {
+            const hash = (await this.git.raw(['rev-parse', '--verify', '--quiet', revision])).trim();
+            return hash || null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    private async generateCommitMessage(files: string[], provenance?: AIProvenance, git: SimpleGit = this.git): Promise<string> {
+        const diff = await this.getStagedDiff(files, git);
+        return await this.messageGenerator.generate({ files, diff, provenance, temporaryIndex: git !== this.git });
+    }
+
+    private async getStagedDiff(files: string[], git: SimpleGit): Promise<string> {
+        try {
+            const diff = await git.diff(['--cached', '--', ...files]);
             return diff || '';
         } catch (error) {
             console.error('Error getting staged diff:', error);
@@ -250,101 +1195,493 @@ export class GitManager {
         }
     }
 
-    private async generateHeuristicCommitMessage(files: string[]): Promise<string> {
+    /**
+     * Builds a message from the staged diff of `git` (the real index by
+     * default, or a temporary index for shadow snapshots) and renders it
+     * through the commit template. Templates without `{body}` get the file
+     * summary appended as the body.
+     */
+    private async generateHeuristicCommitMessage(files: string[], git: SimpleGit = this.git, provenance?: AIProvenance): Promise<string> {
         const config = vscode.workspace.getConfiguration('cursorGit');
-        const template = config.get('commitMessageTemplate', 'feat: {description}');
+        let template: CommitTemplate;
+        try {
+            template = CommitTemplate.forFiles(config, files);
+        } catch (error) {
+            // Already reported when the settings loaded, so just fall back to the default
+            console.error('Invalid commit message template:', error);
+            template = CommitTemplate.parse(DEFAULT_COMMIT_TEMPLATE);
+        }
+
+        // Analyze the staged diff to generate a description and determine commit type
+        const analysis = await this.analyzeChanges(files, git);
+        const branch = await this.getCurrentBranch();
+        const values: TemplateValues = {
+            type: analysis.type,
+            scope: this.inferScope(files, analysis.scope),
+            description: analysis.description,
+            body: analysis.body,
+            files: files.join(', '),
+            fileCount: String(files.length),
+            branch,
+            ticket: CommitTemplate.extractTicket(branch, config.get<string>('ticketPattern', '[A-Z][A-Z0-9]+-\\d+')),
+            wpm: provenance?.wpm !== undefined ? String(Math.round(provenance.wpm)) : '',
+            confidence: provenance?.confidence !== undefined ? provenance.confidence.toFixed(2) : ''
+        };
 
-        // Analyze file changes to generate a description and determine commit type
-        const analysis = await this.analyzeChanges(files);
-        
-        // If template doesn't contain a type prefix, add conventional commit type
-        if (!template.includes('{type}') && !template.match(/^(feat|fix|docs|style|refactor|test|chore|build|ci|perf|revert):/)) {
-            return `${analysis.type}: ${analysis.description}`;
+        // If the template's subject has no type prefix, use a conventional one instead
+        const rendered = template.hasTypePrefix()
+            ? template.render(values)
+            : CommitTemplate.parse(`${DEFAULT_COMMIT_TEMPLATE}\n${template.source.split('\n').slice(1).join('\n')}`).render(values);
+
+        return !template.uses('body') && values.body ? `${rendered}\n\n${values.body}` : rendered;
+    }
+
+    /** Returns the checked-out branch name, or an empty string when HEAD is detached. */
+    async getCurrentBranch(): Promise<string> {
+        try {
+            return (await this.git.raw(['symbolic-ref', '--short', '-q', 'HEAD'])).trim();
+        } catch (error) {
+            return '';
+        }
+    }
+
+    /** True when `branch` matches one of the `protectedBranches` patterns (`*` stops at `/`, `**` doesn't). */
+    isProtectedBranch(branch: string): boolean {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const patterns = config.get<string[]>('protectedBranches', ['main', 'master']);
+        return patterns.some(pattern => Glob.toRegExp(pattern).test(branch));
+    }
+
+    /**
+     * Creates `ai/<base>-<timestamp>` at HEAD and switches to it, remembering
+     * `base` in the branch config. `checkout -b` keeps the index and working
+     * tree, so pending AI changes move to the new branch untouched.
+     */
+    async createRedirectBranch(base: string): Promise<string> {
+        const branch = await this.createBranchFrom(`ai/${base}-${this.branchTimestamp()}`, base);
+        console.log(`Redirected AI commits from ${base} to ${branch}`);
+        return branch;
+    }
+
+    /** Like `createRedirectBranch`, but marks the branch as one AI session to finish later. */
+    async createSessionBranch(base: string): Promise<string> {
+        const branch = await this.createBranchFrom(`ai-session/${base}-${this.branchTimestamp()}`, base);
+        await this.git.raw(['config', `branch.${branch}.cursorGitSession`, 'true']);
+        console.log(`Started AI session branch ${branch} from ${base}`);
+        return branch;
+    }
+
+    private async createBranchFrom(branch: string, base: string): Promise<string> {
+        await this.git.raw(['checkout', '-q', '-b', branch]);
+        await this.git.raw(['config', `branch.${branch}.cursorGitBase`, base]);
+        return branch;
+    }
+
+    private branchTimestamp(): string {
+        return new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').replace(/\..*$/, '');
+    }
+
+    /** Deletes the message `merge --squash` prepares; `git commit` would consume it, commit-tree doesn't. */
+    private async removeSquashMessage(): Promise<void> {
+        const squashMessage = path.resolve(this.workspaceRoot, (await this.git.raw(['rev-parse', '--git-path', 'SQUASH_MSG'])).trim());
+        if (fs.existsSync(squashMessage)) {
+            fs.unlinkSync(squashMessage);
         }
-        
-        return template.replace('{description}', analysis.description).replace('{type}', analysis.type);
     }
 
-    private async analyzeChanges(files: string[]): Promise<{type: string, description: string}> {
+    /** Lists the AI session branches that haven't been finished yet. */
+    async getAISessionBranches(): Promise<AISessionBranch[]> {
+        let output = '';
         try {
-            // Get file extensions to understand the type of changes
-            const extensions = files.map(f => path.extname(f)).filter(ext => ext);
-            const uniqueExtensions = [...new Set(extensions)];
+            output = await this.git.raw(['config', '--get-regexp', '^branch\\..*\\.cursorgitsession$']);
+        } catch (error) {
+            return []; // no matching keys
+        }
 
-            // Count different types of files
-            const stats = {
-                total: files.length,
-                extensions: uniqueExtensions,
-                hasNewFiles: files.some(f => f.includes('(new file)')),
-                hasDeletedFiles: files.some(f => f.includes('(deleted)'))
-            };
+        const sessions: AISessionBranch[] = [];
+        for (const line of output.split('\n').filter(l => l.trim())) {
+            const key = line.split(' ')[0];
+            const branch = key.replace(/^branch\./, '').replace(/\.cursorgitsession$/i, '');
+            const base = await this.getRedirectBase(branch);
+            if (base && await this.resolveRevision(`refs/heads/${branch}`)) {
+                sessions.push({ branch, base });
+            }
+        }
+        return sessions;
+    }
 
-            // Determine commit type based on file patterns and changes
-            let commitType = 'feat'; // Default to feat
-            let description = '';
-
-            // Check for specific file patterns to determine commit type
-            const hasTestFiles = files.some(f => f.includes('test') || f.includes('spec') || f.endsWith('.test.') || f.endsWith('.spec.'));
-            const hasDocFiles = files.some(f => f.endsWith('.md') || f.endsWith('.txt') || f.includes('doc'));
-            const hasConfigFiles = files.some(f => f.includes('config') || f.endsWith('.json') || f.endsWith('.yml') || f.endsWith('.yaml'));
-            const hasStyleFiles = files.some(f => f.endsWith('.css') || f.endsWith('.scss') || f.endsWith('.sass') || f.endsWith('.less'));
-            const hasBuildFiles = files.some(f => f.includes('build') || f.includes('webpack') || f.includes('rollup') || f.endsWith('.lock'));
-
-            // Determine commit type
-            if (hasTestFiles && !stats.hasNewFiles) {
-                commitType = 'test';
-            } else if (hasDocFiles) {
-                commitType = 'docs';
-            } else if (hasStyleFiles) {
-                commitType = 'style';
-            } else if (hasConfigFiles || hasBuildFiles) {
-                commitType = 'chore';
-            } else if (stats.hasDeletedFiles && !stats.hasNewFiles) {
-                commitType = 'refactor';
-            } else if (files.some(f => f.includes('fix') || f.includes('bug'))) {
-                commitType = 'fix';
-            }
-
-            // Generate description based on file types and changes
-            if (stats.hasNewFiles && stats.hasDeletedFiles) {
-                description = 'add and remove files';
-            } else if (stats.hasNewFiles) {
-                description = 'add new files';
-            } else if (stats.hasDeletedFiles) {
-                description = 'remove files';
-            } else if (uniqueExtensions.length === 1) {
-                const ext = uniqueExtensions[0];
-                description = `update ${ext} files`;
-            } else if (uniqueExtensions.length > 1) {
-                description = 'update multiple file types';
-            } else {
-                description = 'update files';
+    /** Returns everything the session changed since it forked from its base. */
+    async getSessionDiff(session: AISessionBranch): Promise<string> {
+        return await this.git.raw(['diff', '--stat', '--patch', `${session.base}...${session.branch}`]);
+    }
+
+    /**
+     * Lands an AI session on its base branch and deletes the session branch:
+     * `squash` commits the combined diff as one commit with a generated
+     * message, `rebase` replays the session commits and fast-forwards, and
+     * `discard` throws the session away. The base branch is checked out
+     * afterwards; on failure the original branch is restored.
+     */
+    async finishAISession(session: AISessionBranch, strategy: SessionFinishStrategy): Promise<CommitResult> {
+        const originalBranch = await this.getCurrentBranch();
+        try {
+            // Untracked files survive the checkouts below, so only tracked changes are in the way
+            const trackedChanges = await this.git.raw(['status', '--porcelain', '--untracked-files=no']);
+            if (trackedChanges.trim()) {
+                return { success: false, message: '', error: 'The working tree has uncommitted changes; commit or stash them first' };
+            }
+
+            const commitCount = parseInt((await this.git.raw(['rev-list', '--count', `${session.base}..${session.branch}`])).trim(), 10);
+            if (strategy === 'rebase' && commitCount > 0) {
+                try {
+                    await this.git.raw(['rebase', '-q', session.base, session.branch]);
+                } catch (error) {
+                    await this.git.raw(['rebase', '--abort']).catch(() => undefined);
+                    throw new Error(`Rebasing ${session.branch} onto ${session.base} hit conflicts and was aborted`);
+                }
+            }
+
+            await this.git.raw(['checkout', '-q', session.base]);
+            let result: CommitResult = { success: true, message: `Discarded ${session.branch}` };
+            if (strategy === 'rebase') {
+                await this.git.raw(['merge', '-q', '--ff-only', session.branch]);
+                result = { success: true, message: `Rebased ${commitCount} commit(s) from ${session.branch} onto ${session.base}` };
+            } else if (strategy === 'squash' && commitCount > 0) {
+                await this.git.raw(['merge', '-q', '--squash', session.branch]);
+                if ((await this.git.raw(['diff', '--name-only', '--diff-filter=U'])).trim()) {
+                    throw new Error(`Squash-merging ${session.branch} into ${session.base} hit conflicts and was undone`);
+                }
+                const tree = (await this.git.raw(['write-tree'])).trim();
+                result = await this.commitSquashedTree(tree, (await this.git.revparse(['HEAD'])).trim());
+                await this.removeSquashMessage();
+                if (!result.success) {
+                    throw new Error(result.error || 'Squash commit failed');
+                }
             }
 
-            // Add file count if more than 1
-            if (stats.total > 1) {
-                description += ` (${stats.total} files)`;
+            await this.git.raw(['branch', '-D', session.branch]);
+            return result;
+        } catch (error) {
+            console.error('Error finishing AI session:', error);
+            let message = error instanceof Error ? error.message : 'Unknown error';
+            if (originalBranch && (await this.getCurrentBranch()) !== originalBranch) {
+                try {
+                    // The tree was clean when we started, so anything tracked here is a half-done merge
+                    await this.git.raw(['reset', '-q', '--hard', 'HEAD']);
+                    await this.removeSquashMessage();
+                    await this.git.raw(['checkout', '-q', originalBranch]);
+                } catch (restoreError) {
+                    console.error('Error switching back after a failed session finish:', restoreError);
+                    const reason = restoreError instanceof Error ? restoreError.message : String(restoreError);
+                    message += `. Switching back to ${originalBranch} also failed: ${reason}`;
+                }
             }
+            return {
+                success: false,
+                message: '',
+                error: message
+            };
+        }
+    }
 
-            return { type: commitType, description };
+    /** Returns the branch AI commits were redirected away from, if `branch` is a redirect branch. */
+    async getRedirectBase(branch: string): Promise<string | null> {
+        if (!branch) {
+            return null;
+        }
+        try {
+            return (await this.git.raw(['config', '--get', `branch.${branch}.cursorGitBase`])).trim() || null;
         } catch (error) {
-            console.error('Error analyzing changes:', error);
-            return { type: 'feat', description: 'AI-generated changes' };
+            return null;
+        }
+    }
+
+    /**
+     * Uses the workspace packages owning `files` as the scope. Repositories
+     * without workspace definitions fall back to the file-derived scope, while
+     * changes outside every package of a monorepo get none.
+     */
+    private inferScope(files: string[], fallback: string): string {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const multiScopeFormat = config.get<string>('multiScopeFormat', 'list');
+        const maxScopes = config.get<number>('maxScopes', 3);
+
+        if (this.scopeResolver.getPackages().length === 0) {
+            return fallback;
         }
+
+        const scopes = this.scopeResolver.getScopes(files);
+        if (scopes.length <= 1) {
+            return scopes[0] || '';
+        }
+        return multiScopeFormat === 'star' || scopes.length > maxScopes ? '*' : scopes.join(',');
     }
 
-    private filterExcludedFiles(files: string[], excludePatterns: string[]): string[] {
-        if (excludePatterns.length === 0) {
-            return files;
+    private async analyzeChanges(files: string[], git: SimpleGit): Promise<ChangeDescription> {
+        try {
+            const pathspec = files.length > 0 ? ['--', ...files] : [];
+            const nameStatus = await git.raw(['diff', '--cached', '--name-status', '-M', ...pathspec]);
+            const diff = await git.raw(['diff', '--cached', '-M', '--unified=0', ...pathspec]);
+            let changes = DiffAnalyzer.parse(nameStatus, diff);
+
+            if (changes.length === 0) {
+                // Nothing staged for these paths, e.g. when only buffers are listed
+                changes = files.map(file => ({
+                    path: file, status: 'modified', additions: 0, deletions: 0,
+                    addedSymbols: [], removedSymbols: [], changedSymbols: []
+                }));
+            }
+            return DiffAnalyzer.describe(changes);
+        } catch (error) {
+            console.error('Error analyzing changes:', error);
+            return { type: 'feat', scope: '', description: 'AI-generated changes', body: '' };
         }
+    }
 
+    private filterExcludedFiles(files: string[]): string[] {
+        const matcher = this.getExcludeMatcher();
         return files.filter(file => {
-            return !excludePatterns.some(pattern => {
-                // Simple glob pattern matching
-                const regex = new RegExp(pattern.replace(/\*/g, '.*').replace(/\?/g, '.'));
-                return regex.test(file);
+            const excluded = matcher.isExcluded(this.toRepoPaths([file])[0]);
+            if (excluded) {
+                console.log(`Excluded from auto-commit: ${file}`);
+            }
+            return !excluded;
+        });
+    }
+
+    private getExcludeMatcher(): ExcludeMatcher {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        return ExcludeMatcher.load(this.workspaceRoot, config.get<string[]>('excludePatterns', []));
+    }
+
+    /** Returns the exclude rule that decides whether `file` is auto-committed, if any. */
+    explainExclusion(file: string): ExcludeRule | undefined {
+        return this.getExcludeMatcher().explain(this.toRepoPaths([file])[0]);
+    }
+
+    async getRecentCommits(maxCount: number = 50, revision: string = 'HEAD'): Promise<CommitSummary[]> {
+        try {
+            const output = await this.git.raw([
+                'log', `--max-count=${maxCount}`,
+                '--format=%H%x1f%aI%x1f%an%x1f%s%x1f%(trailers:key=AI-Assisted,valueonly,separator=%x2c)%x1e',
+                revision
+            ]);
+            return output.split('\x1e').map(record => record.trim()).filter(record => record).map(record => {
+                const [hash, date, author, message, aiTrailer] = record.split('\x1f');
+                return {
+                    hash,
+                    date,
+                    author,
+                    message,
+                    isAI: this.isAIAuthorName(author) || (aiTrailer || '').split(',').some(v => v.trim().toLowerCase() === 'true')
+                };
             });
+        } catch (error) {
+            console.error('Error getting recent commits:', error);
+            return [];
+        }
+    }
+
+    /** Returns the contiguous run of AI commits at the tip of the current branch, newest first. */
+    async getAgentCommitRun(): Promise<CommitSummary[]> {
+        const commits = await this.getRecentCommits(200);
+        const run: CommitSummary[] = [];
+        for (const commit of commits) {
+            if (!commit.isAI) {
+                break;
+            }
+            run.push(commit);
+        }
+        return run;
+    }
+
+    /** Counts how many commits in `base..HEAD` are already on the upstream branch. */
+    async countPushedCommits(base: string): Promise<number> {
+        const upstream = await this.resolveRevision('@{upstream}');
+        if (!upstream) {
+            return 0;
+        }
+        const all = await this.git.raw(['rev-list', '--count', `${base}..HEAD`]);
+        const unpushed = await this.git.raw(['rev-list', '--count', `${base}..HEAD`, '--not', upstream]);
+        return parseInt(all.trim(), 10) - parseInt(unpushed.trim(), 10);
+    }
+
+    /**
+     * Collapses every commit in `base..HEAD` into one commit whose message is
+     * regenerated from the combined diff. Only AI commits can be squashed,
+     * since the result is authored by the AI identity. HEAD is restored if
+     * anything fails.
+     */
+    async squashCommits(base: string): Promise<CommitResult> {
+        const originalHead = await this.resolveRevision('HEAD');
+        try {
+            const baseCommit = await this.resolveRevision(base);
+            if (!baseCommit || !originalHead) {
+                return { success: false, message: '', error: 'Cannot squash the root commit' };
+            }
+
+            const merges = await this.git.raw(['rev-list', '--merges', `${base}..HEAD`]);
+            if (merges.trim()) {
+                return { success: false, message: '', error: 'The range contains merge commits' };
+            }
+
+            const count = parseInt((await this.git.raw(['rev-list', '--count', `${base}..HEAD`])).trim(), 10);
+            const humanCommits = (await this.getRecentCommits(count, `${base}..HEAD`)).filter(commit => !commit.isAI);
+            if (humanCommits.length > 0) {
+                return { success: false, message: '', error: `The range contains ${humanCommits.length} commit(s) not written by AI` };
+            }
+
+            const status = await this.getStatus();
+            if (status.staged.length > 0) {
+                return { success: false, message: '', error: 'The index has staged changes; commit or unstage them first' };
+            }
+
+            await this.git.reset(['--soft', baseCommit]);
+            const result = await this.commitSquashedTree(`${originalHead}^{tree}`, baseCommit);
+            if (!result.success) {
+                await this.git.reset(['--soft', originalHead]);
+            }
+            return result;
+        } catch (error) {
+            console.error('Error squashing commits:', error);
+            if (originalHead) {
+                await this.git.reset(['--soft', originalHead]).catch(() => undefined);
+            }
+            return {
+                success: false,
+                message: '',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Commits `tree` on top of `parent` as the AI author and moves the current
+     * branch to it. Squashes commit content that was already committed once,
+     * so unlike `commitChanges` there is no secret scan or hook that could
+     * drop or rewrite part of it. The message is generated from the staged
+     * diff, so callers stage the squashed changes against `parent` first.
+     */
+    private async commitSquashedTree(tree: string, parent: string): Promise<CommitResult> {
+        const status = await this.getStatus();
+        const lint = await this.enforceCommitlint(await this.generateCommitMessage(status.staged));
+        if (lint.error) {
+            return {
+                success: false,
+                message: '',
+                error: lint.error,
+                blocked: true
+            };
+        }
+
+        const aiAuthor = await this.getAIAuthor();
+        const authorGit = simpleGit(this.workspaceRoot).env({
+            ...process.env,
+            GIT_AUTHOR_NAME: aiAuthor.name,
+            GIT_AUTHOR_EMAIL: aiAuthor.email
         });
+        const hash = (await authorGit.raw(['commit-tree', tree, '-p', parent, '-m', this.addProvenanceTrailers(lint.message)])).trim();
+        await this.git.raw(['reset', '-q', '--soft', hash]);
+        return { success: true, message: lint.message, hash };
+    }
+
+    async getCommitFiles(hash: string): Promise<Array<{status: string, path: string}>> {
+        try {
+            const output = await this.git.raw(['show', '--name-status', '--format=', hash]);
+            return output.split('\n').filter(line => line.trim()).map(line => {
+                const parts = line.split('\t');
+                return { status: parts[0].charAt(0), path: parts[parts.length - 1] };
+            });
+        } catch (error) {
+            console.error('Error getting commit files:', error);
+            return [];
+        }
+    }
+
+    async getCommitPatch(hash: string, file?: string): Promise<string> {
+        const args = ['show', '--stat', '--patch', hash];
+        if (file) {
+            args.push('--', file);
+        }
+        return await this.git.raw(args);
+    }
+
+    /**
+     * Undoes a specific auto-commit. History is only rewritten (`soft`/`hard`)
+     * when the commit is still HEAD and hasn't reached the upstream; otherwise
+     * this falls back to `git revert`.
+     */
+    async revertAutoCommit(hash: string, strategy: RevertStrategy): Promise<RevertResult> {
+        const commit = await this.resolveRevision(`${hash}^{commit}`);
+        if (!commit) {
+            return { success: false, strategy, error: `Commit ${hash} not found` };
+        }
+
+        let fallbackReason: string | undefined;
+        if (strategy !== 'revert') {
+            if ((await this.resolveRevision('HEAD')) !== commit) {
+                fallbackReason = 'newer commits were made on top of it';
+            } else if (await this.isOnUpstream(commit)) {
+                fallbackReason = 'it is already on the upstream';
+            } else if (!(await this.resolveRevision(`${commit}^`))) {
+                fallbackReason = 'it is the root commit';
+            }
+            if (fallbackReason) {
+                console.log(`Not rewriting ${commit} because ${fallbackReason}, using git revert`);
+                strategy = 'revert';
+            }
+        }
+
+        try {
+            if (strategy === 'soft') {
+                await this.git.reset(['--soft', `${commit}^`]);
+            } else if (strategy === 'hard') {
+                await this.discardHeadCommit(commit);
+            } else {
+                await this.git.raw(['revert', '--no-edit', commit]);
+            }
+            return { success: true, strategy, fallbackReason };
+        } catch (error) {
+            console.error(`Error reverting commit ${commit}:`, error);
+            if (strategy === 'revert') {
+                await this.git.raw(['revert', '--abort']).catch(() => undefined);
+            }
+            return {
+                success: false,
+                strategy,
+                fallbackReason,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    // Drops HEAD and reverse-applies its patch, so only the commit's own lines
+    // are discarded and any other uncommitted work stays in the working tree
+    private async discardHeadCommit(commit: string): Promise<void> {
+        const patchFile = path.join(os.tmpdir(), `cursor-git-revert-${process.pid}-${Date.now()}.patch`);
+        fs.writeFileSync(patchFile, await this.git.raw(['show', '--binary', '--format=', commit]));
+        try {
+            // Check first so a conflicting working tree leaves the commit untouched
+            await this.git.raw(['apply', '-R', '--check', patchFile]);
+            await this.git.reset(['--soft', `${commit}^`]);
+            await this.git.raw(['apply', '-R', '--cached', patchFile]);
+            await this.git.raw(['apply', '-R', patchFile]);
+        } finally {
+            fs.unlinkSync(patchFile);
+        }
+    }
+
+    private async isOnUpstream(commit: string): Promise<boolean> {
+        const upstream = await this.resolveRevision('@{upstream}');
+        if (!upstream) {
+            return false;
+        }
+        try {
+            await this.git.raw(['merge-base', '--is-ancestor', commit, upstream]);
+            return true;
+        } catch (error) {
+            return false;
+        }
     }
 
     async getLastCommit(): Promise<string | null> {
@@ -359,17 +1696,13 @@ export class GitManager {
 
     // New method to test AI commit message generation
     async testAIGeneration(): Promise<string> {
-        const testFiles = ['src/test.ts', 'src/ai-test.js'];
-        return await this.generateCommitMessage(testFiles);
-    }
-
-    async revertLastCommit(): Promise<boolean> {
-        try {
-            await this.git.reset(['--soft', 'HEAD~1']);
-            return true;
-        } catch (error) {
-            console.error('Error reverting last commit:', error);
-            return false;
+        // The AI providers need a staged diff to look at
+        let status = await this.getStatus();
+        if (status.staged.length === 0) {
+            await this.stageFiles(await this.getModifiedFiles());
+            status = await this.getStatus();
         }
+
+        return await this.generateCommitMessage(status.staged);
     }
 }
@@ -0,0 +1,70 @@
+export interface GlobOptions {
+    /** Patterns without a slash match a path's last segments at any depth, like `.gitignore`. */
+    matchAnyDepth?: boolean;
+}
+
+/**
+ * Compiles the glob syntax shared by exclude rules, template overrides,
+ * workspace package patterns and protected branches: `*` and `?` stay within
+ * one path segment, a whole `**` segment spans directories, `[...]` classes
+ * work as in git and a backslash escapes the next character. Patterns
+ * containing a slash are anchored to the start; a leading `/` or `./` is
+ * dropped.
+ */
+export class Glob {
+    static toRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+        const anchored = !options.matchAnyDepth || pattern.includes('/');
+        const body = pattern.replace(/^\.?\//, '');
+
+        let source = '';
+        for (let i = 0; i < body.length; i++) {
+            const char = body[i];
+            if (char === '*') {
+                if (body[i + 1] === '*') {
+                    const atSegmentStart = i === 0 || body[i - 1] === '/';
+                    const followedBySlash = body[i + 2] === '/';
+                    const atEnd = i + 2 === body.length;
+                    if (atSegmentStart && followedBySlash) {
+                        // `**/` matches zero or more directories
+                        source += '(?:.*/)?';
+                        i += 2;
+                        continue;
+                    }
+                    if (atSegmentStart && atEnd) {
+                        // `/**` matches everything inside, a lone `**` everything at all
+                        source += i === 0 ? '.*' : '.+';
+                        i += 1;
+                        continue;
+                    }
+                    // Any other `**` behaves like `*`
+                    source += '[^/]*';
+                    i += 1;
+                    continue;
+                }
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '[') {
+                const end = body.indexOf(']', i + 2);
+                if (end === -1) {
+                    source += '\\[';
+                    continue;
+                }
+                const contents = body.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                source += `[${contents}]`;
+                i = end;
+            } else if (char === '\\' && i + 1 < body.length) {
+                source += Glob.escape(body[i + 1]);
+                i++;
+            } else {
+                source += Glob.escape(char);
+            }
+        }
+
+        return new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`);
+    }
+
+    private static escape(char: string): string {
+        return /[.+^${}()|[\]\\/]/.test(char) ? `\\${char}` : char;
+    }
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitManager } from './gitManager';
+
+/**
+ * Keeps one GitManager per workspace folder and routes documents to the
+ * repository that owns them. Folders added to or removed from a multi-root
+ * workspace are picked up as they change, and nested repositories and
+ * submodules inside a folder get a manager of their own on first use.
+ */
+export class RepositoryRegistry {
+    private managers: Map<string, GitManager> = new Map(); // folder uri -> manager
+    private nestedManagers: Map<string, GitManager> = new Map(); // repository root -> manager
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            this.addFolder(folder);
+        }
+    }
+
+    initialize(): void {
+        const folderChangeListener = vscode.workspace.onDidChangeWorkspaceFolders(event => {
+            event.removed.forEach(folder => this.removeFolder(folder));
+            event.added.forEach(folder => this.addFolder(folder));
+        });
+
+        this.disposables.push(folderChangeListener);
+    }
+
+    private addFolder(folder: vscode.WorkspaceFolder): void {
+        const key = folder.uri.toString();
+        if (!this.managers.has(key)) {
+            this.managers.set(key, new GitManager(folder.uri.fsPath));
+            console.log(`Registered repository for workspace folder: ${folder.name}`);
+        }
+    }
+
+    private removeFolder(folder: vscode.WorkspaceFolder): void {
+        if (this.managers.delete(folder.uri.toString())) {
+            console.log(`Unregistered repository for workspace folder: ${folder.name}`);
+        }
+
+        const folderRoot = path.resolve(folder.uri.fsPath);
+        for (const root of this.nestedManagers.keys()) {
+            if (root === folderRoot || root.startsWith(folderRoot + path.sep)) {
+                this.nestedManagers.delete(root);
+            }
+        }
+    }
+
+    getManagers(): GitManager[] {
+        return [...this.managers.values(), ...this.nestedManagers.values()];
+    }
+
+    /**
+     * Resolves the manager for the repository that actually contains the file,
+     * so edits inside a submodule or nested repository are committed there
+     * instead of showing up as a dirty gitlink in the workspace repository.
+     */
+    async resolveManagerForUri(uri: vscode.Uri): Promise<GitManager | undefined> {
+        const folderManager = this.getManagerForUri(uri);
+        if (!folderManager || uri.scheme !== 'file') {
+            return folderManager;
+        }
+
+        const root = await GitManager.resolveRepositoryRoot(uri.fsPath);
+        return root ? this.getManagerForRoot(root) : folderManager;
+    }
+
+    getManagerForRoot(root: string): GitManager {
+        const resolvedRoot = path.resolve(root);
+        const folderManager = [...this.managers.values()].find(m => path.resolve(m.getWorkspaceRoot()) === resolvedRoot);
+        if (folderManager) {
+            return folderManager;
+        }
+
+        let nestedManager = this.nestedManagers.get(resolvedRoot);
+        if (!nestedManager) {
+            nestedManager = new GitManager(resolvedRoot);
+            this.nestedManagers.set(resolvedRoot, nestedManager);
+            console.log(`Registered nested repository: ${resolvedRoot}`);
+        }
+        return nestedManager;
+    }
+
+    getManagerForUri(uri: vscode.Uri): GitManager | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder ? this.managers.get(folder.uri.toString()) : undefined;
+    }
+
+    /** Returns the repository of the active editor, falling back to the first folder. */
+    getActiveManager(): GitManager | undefined {
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const activeManager = activeUri ? this.getManagerForUri(activeUri) : undefined;
+        return activeManager || this.getManagers()[0];
+    }
+
+    getRepositoryName(manager: GitManager): string {
+        return path.basename(manager.getWorkspaceRoot()) || manager.getWorkspaceRoot();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.managers.clear();
+        this.nestedManagers.clear();
+    }
+}
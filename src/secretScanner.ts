@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExcludeMatcher } from './excludeMatcher';
+
+export const ALLOWLIST_FILE = '.cursorgitallow';
+export const INLINE_ALLOW_MARKER = 'cursor-git:allow';
+
+export interface SecretFinding {
+    file: string; // repository path
+    line: number; // 1-based line in the new version of the file
+    ruleId: string;
+    description: string;
+    redacted: string;
+}
+
+interface SecretRule {
+    id: string;
+    description: string;
+    pattern: RegExp;
+    group?: number; // capture group holding the secret, defaults to the whole match
+    minEntropy?: number;
+    nameKeyword?: RegExp; // tested against the words of the assigned name in capture group 1, e.g. "api key" for `apiKey`
+    files?: RegExp; // only scan files whose repository path matches
+}
+
+// Files holding plain `NAME=value` or `name: value` settings, where values aren't quoted
+const CONFIG_FILES = /(?:^|\/)\.env(?:\.[\w.-]+)?$|\.(?:properties|ya?ml)$/i;
+const SECRET_NAME = /\b(?:api ?key|secret|token|passw(?:or)?d|pwd|auth|credentials?|access ?key)s?\b/;
+
+const SECRET_RULES: SecretRule[] = [
+    { id: 'aws-access-key-id', description: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[0-9A-Z]{16}\b/ },
+    {
+        id: 'aws-secret-access-key',
+        description: 'AWS secret access key',
+        pattern: /aws_?secret_?(?:access_?)?key\W{0,5}[:=]\W{0,3}([A-Za-z0-9/+=]{40})\b/i,
+        group: 1
+    },
+    { id: 'github-token', description: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,255}\b/ },
+    { id: 'github-fine-grained-token', description: 'GitHub fine-grained token', pattern: /\bgithub_pat_[A-Za-z0-9_]{82}\b/ },
+    { id: 'slack-token', description: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/ },
+    { id: 'stripe-secret-key', description: 'Stripe secret key', pattern: /\b[rs]k_live_[A-Za-z0-9]{24,}\b/ },
+    { id: 'google-api-key', description: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+    {
+        id: 'openai-api-key',
+        description: 'OpenAI-style API key',
+        pattern: /(?<![\w-])sk-(?:proj-|svcacct-|admin-|ant-)?[A-Za-z0-9_-]{20,}/,
+        minEntropy: 3.5
+    },
+    {
+        id: 'private-key',
+        description: 'Private key block',
+        pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/
+    },
+    {
+        id: 'generic-secret-assignment',
+        description: 'High-entropy secret assignment',
+        // Only string literals: identifiers and member expressions name a secret, they don't hold one
+        pattern: /(?<![\w$])([A-Za-z_$][\w$-]*)['"]?\s*[:=]\s*(['"`])([A-Za-z0-9_\-+/=.]{16,})\2/,
+        group: 3,
+        minEntropy: 3.5,
+        nameKeyword: SECRET_NAME
+    },
+    {
+        id: 'config-secret-assignment',
+        description: 'High-entropy secret in a config file',
+        pattern: /^\s*(?:export\s+)?([A-Za-z_][\w.-]*)\s*[:=]\s*([A-Za-z0-9_\-+/=.]{16,})\s*(?:#.*)?$/,
+        group: 2,
+        minEntropy: 3.5,
+        nameKeyword: SECRET_NAME,
+        files: CONFIG_FILES
+    }
+];
+
+/**
+ * Scans the added lines of a diff for credentials using a built-in ruleset.
+ * Findings can be silenced per line with a `cursor-git:allow` comment, or in
+ * the `.cursorgitallow` file at the repository root, which lists allowed
+ * literal values, `path:<gitignore pattern>` entries for files to skip and
+ * `rule:<id>` entries to turn a rule off.
+ */
+export class SecretScanner {
+    private allowedValues: Set<string>;
+    private allowedPaths: ExcludeMatcher;
+    private disabledRules: Set<string>;
+
+    private constructor(allowedValues: Set<string>, allowedPaths: ExcludeMatcher, disabledRules: Set<string>) {
+        this.allowedValues = allowedValues;
+        this.allowedPaths = allowedPaths;
+        this.disabledRules = disabledRules;
+    }
+
+    static load(root: string): SecretScanner {
+        const allowlistPath = path.join(root, ALLOWLIST_FILE);
+        const lines = fs.existsSync(allowlistPath) ? fs.readFileSync(allowlistPath, 'utf8').split(/\r?\n/) : [];
+
+        const values = new Set<string>();
+        const pathPatterns: string[] = [];
+        const rules = new Set<string>();
+        for (const rawLine of lines) {
+            const line = rawLine.trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+            if (line.startsWith('path:')) {
+                pathPatterns.push(line.substring('path:'.length).trim());
+            } else if (line.startsWith('rule:')) {
+                rules.add(line.substring('rule:'.length).trim());
+            } else {
+                values.add(line);
+            }
+        }
+
+        return new SecretScanner(values, new ExcludeMatcher(ExcludeMatcher.parse(pathPatterns, ALLOWLIST_FILE, false)), rules);
+    }
+
+    /** Scans the `+` lines of a unified diff, tracking new-file line numbers from the hunk headers. */
+    scan(diff: string): SecretFinding[] {
+        const findings: SecretFinding[] = [];
+        let file: string | null = null;
+        let lineNumber = 0;
+
+        for (const line of diff.split('\n')) {
+            if (line.startsWith('diff --git ')) {
+                file = null;
+            } else if (line.startsWith('+++ ')) {
+                const target = line.substring(4);
+                file = target === '/dev/null' ? null : target.replace(/^b\//, '');
+                if (file && this.allowedPaths.isExcluded(file)) {
+                    file = null;
+                }
+            } else if (line.startsWith('@@')) {
+                const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
+                lineNumber = match ? parseInt(match[1], 10) : 0;
+            } else if (file && line.startsWith('+')) {
+                findings.push(...this.scanLine(file, lineNumber, line.substring(1)));
+                lineNumber++;
+            } else if (file && line.startsWith(' ')) {
+                lineNumber++;
+            }
+        }
+        return findings;
+    }
+
+    private scanLine(file: string, lineNumber: number, text: string): SecretFinding[] {
+        if (text.includes(INLINE_ALLOW_MARKER)) {
+            return [];
+        }
+
+        const findings: SecretFinding[] = [];
+        for (const rule of SECRET_RULES) {
+            if (this.disabledRules.has(rule.id) || (rule.files && !rule.files.test(file))) {
+                continue;
+            }
+            const secret = this.findSecret(rule, text);
+            if (secret) {
+                findings.push({ file, line: lineNumber, ruleId: rule.id, description: rule.description, redacted: SecretScanner.redact(secret) });
+                // One finding per line is enough to point the user at it
+                break;
+            }
+        }
+        return findings;
+    }
+
+    /** Returns the first match of `rule` in `text` that passes its name, entropy and allowlist checks. */
+    private findSecret(rule: SecretRule, text: string): string | undefined {
+        for (const match of text.matchAll(new RegExp(rule.pattern.source, rule.pattern.flags + 'g'))) {
+            const secret = match[rule.group ?? 0];
+            if (!secret || this.allowedValues.has(secret)) {
+                continue;
+            }
+            if (rule.nameKeyword && !rule.nameKeyword.test(SecretScanner.nameWords(match[1]))) {
+                continue;
+            }
+            if (rule.minEntropy !== undefined && SecretScanner.entropy(secret) < rule.minEntropy) {
+                continue;
+            }
+            return secret;
+        }
+        return undefined;
+    }
+
+    /** Splits a camelCase, snake_case or kebab-case name into lowercase words: `APIKey` -> "api key". */
+    private static nameWords(name: string): string {
+        return name
+            .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+            .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+            .split(/[\s_$-]+/)
+            .filter(Boolean)
+            .join(' ')
+            .toLowerCase();
+    }
+
+    /** Shannon entropy in bits per character. */
+    private static entropy(value: string): number {
+        const counts = new Map<string, number>();
+        for (const char of value) {
+            counts.set(char, (counts.get(char) || 0) + 1);
+        }
+        let entropy = 0;
+        for (const count of counts.values()) {
+            const p = count / value.length;
+            entropy -= p * Math.log2(p);
+        }
+        return entropy;
+    }
+
+    private static redact(secret: string): string {
+        return secret.length <= 8 ? '*'.repeat(secret.length) : `${secret.substring(0, 4)}…${secret.substring(secret.length - 4)}`;
+    }
+}
@@ -3,6 +3,7 @@ import * as vscode from 'vscode';
 export class StatusBarManager {
     private statusBarItem: vscode.StatusBarItem;
     private isEnabled: boolean = false;
+    private redirect: {branch: string, base: string} | null = null;
 
     constructor() {
         this.statusBarItem = vscode.window.createStatusBarItem(
@@ -21,6 +22,12 @@ export class StatusBarManager {
         this.updateStatusBarItem();
     }
 
+    /** Shows that AI commits are going to `branch` instead of the protected `base`. */
+    setRedirect(redirect: {branch: string, base: string} | null): void {
+        this.redirect = redirect;
+        this.updateStatusBarItem();
+    }
+
     private async updateStatusFromConfig(): Promise<void> {
         const config = vscode.workspace.getConfiguration('cursorGit');
         this.isEnabled = config.get('enabled', true);
@@ -28,7 +35,12 @@ export class StatusBarManager {
     }
 
     private updateStatusBarItem(): void {
-        if (this.isEnabled) {
+        if (this.isEnabled && this.redirect) {
+            this.statusBarItem.text = `$(git-commit) Cursor Git $(git-branch) ${this.redirect.branch}`;
+            this.statusBarItem.tooltip = `Cursor Git: Auto-commit enabled\nAI commits redirected from ${this.redirect.base} to ${this.redirect.branch}\nClick to disable`;
+            this.statusBarItem.command = 'cursorGit.disable';
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else if (this.isEnabled) {
         this.statusBarItem.text = '$(git-commit) Cursor Git';
         this.statusBarItem.tooltip = 'Cursor Git: Auto-commit enabled\nClick to disable';
         this.statusBarItem.command = 'cursorGit.disable';
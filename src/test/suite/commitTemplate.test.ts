@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitTemplate, DEFAULT_COMMIT_TEMPLATE, TemplateValues } from '../../commitTemplate';
+
+const values: TemplateValues = {
+    type: 'fix',
+    scope: 'api',
+    description: 'handle empty responses',
+    body: '',
+    files: 'packages/api/src/client.ts',
+    fileCount: '1',
+    branch: 'main',
+    ticket: '',
+    wpm: '',
+    confidence: ''
+};
+
+suite('Commit Template Test Suite', () => {
+    test('The shipped default template matches the one used as a fallback', () => {
+        const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '../../../package.json'), 'utf8'));
+        const shipped = manifest.contributes.configuration.properties['cursorGit.commitMessageTemplate'].default;
+        assert.strictEqual(shipped, DEFAULT_COMMIT_TEMPLATE);
+    });
+
+    test('The shipped default renders the inferred type and scope', () => {
+        const template = CommitTemplate.parse(DEFAULT_COMMIT_TEMPLATE);
+        assert.ok(template.hasTypePrefix());
+        assert.strictEqual(template.render(values), 'fix(api): handle empty responses');
+        assert.strictEqual(template.render({ ...values, type: 'docs', scope: '' }), 'docs: handle empty responses');
+    });
+});
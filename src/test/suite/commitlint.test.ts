@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { CommitlintRules, CommitlintValidator } from '../../commitlint';
+
+const RULES: CommitlintRules = {
+    'header-max-length': [2, 'always', 50],
+    'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+    'subject-full-stop': [2, 'never', '.'],
+    'type-enum': [2, 'always', ['chore', 'docs', 'feat', 'fix', 'refactor']]
+};
+
+function violatedRules(message: string, rules: CommitlintRules = RULES): string[] {
+    return new CommitlintValidator(os.tmpdir()).validate(message, rules).map(v => v.rule);
+}
+
+suite('Commitlint Test Suite', () => {
+    test('Accepts a message that follows every rule', () => {
+        assert.deepStrictEqual(violatedRules('feat(parser): add header parsing'), []);
+    });
+
+    test('Reports headers longer than header-max-length', () => {
+        assert.deepStrictEqual(violatedRules('feat: update multiple file types across the whole repository'), ['header-max-length']);
+    });
+
+    test('Reports types outside type-enum', () => {
+        assert.deepStrictEqual(violatedRules('update: tweak the parser'), ['type-enum']);
+        assert.deepStrictEqual(violatedRules('update: tweak the parser', { ...RULES, 'type-enum': [0, 'always', ['feat']] }), []);
+    });
+
+    test('Reports subjects in a forbidden case', () => {
+        assert.deepStrictEqual(violatedRules('fix: Handle empty input'), ['subject-case']);
+        assert.deepStrictEqual(violatedRules('fix: handle empty input.'), ['subject-full-stop']);
+    });
+
+    test('Repairs the type, subject case and header length', () => {
+        const validator = new CommitlintValidator(os.tmpdir());
+        assert.strictEqual(validator.repair('feature: Add header parsing.', RULES), 'feat: add header parsing');
+        assert.strictEqual(validator.repair('update multiple file types in the workspace (17 files)', RULES), 'feat: update multiple file types in the workspace');
+
+        const long = validator.repair('fix: handle empty input in the parser and the tokenizer for every file type', RULES);
+        assert.ok(long.length <= 50, long);
+        assert.deepStrictEqual(validator.validate(long, RULES), []);
+    });
+
+    test('Falls back to an allowed type when the preferred one is not', () => {
+        const rules: CommitlintRules = { 'type-enum': [2, 'always', ['chore', 'fix']] };
+        assert.strictEqual(new CommitlintValidator(os.tmpdir()).repair('feat: add a cache', rules), 'chore: add a cache');
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DetectionContext, DetectionPipeline } from '../../detectionSignals';
+
+function context(texts: string[], overrides: Partial<DetectionContext> = {}, reason?: vscode.TextDocumentChangeReason): DetectionContext {
+    const event = { contentChanges: texts.map(text => ({ text })), reason } as unknown as vscode.TextDocumentChangeEvent;
+    return {
+        event,
+        timestamp: 10000,
+        isActiveDocument: true,
+        sessionWPM: null,
+        speedThreshold: 80,
+        previousEditTimes: [],
+        recentFileCount: 1,
+        ...overrides
+    };
+}
+
+function evaluate(detectionContext: DetectionContext): { confidence: number; ids: string[] } {
+    const result = new DetectionPipeline().evaluate(detectionContext, {});
+    assert.ok(result);
+    return { confidence: result.confidence, ids: result.signals.map(s => s.id) };
+}
+
+suite('Detection Signals Test Suite', () => {
+    test('Scores steady human typing as human', () => {
+        const result = evaluate(context(['a'], {
+            sessionWPM: 40,
+            previousEditTimes: [9200, 9380, 9620, 9760]
+        }));
+        // typingSpeed 0.25 x 3, burstSize 0 x 2, editTiming 0.1 x 1
+        assert.strictEqual(result.confidence.toFixed(4), '0.1417');
+        assert.deepStrictEqual(result.ids, ['typingSpeed', 'burstSize', 'editTiming']);
+    });
+
+    test('Scores a structured multi-line apply as AI', () => {
+        const code = 'function total(items) {\n    return items.reduce((sum, item) => sum + item.price, 0);\n}\n';
+        const result = evaluate(context([code], { isActiveDocument: false }));
+        // burstSize 0.97 x 2, structuredInsertion 0.8 x 1.5; activeEditor is not needed
+        assert.strictEqual(result.confidence.toFixed(4), '0.8970');
+        assert.deepStrictEqual(result.ids, ['burstSize', 'structuredInsertion']);
+    });
+
+    test('Keeps a short rename across files human', () => {
+        const result = evaluate(context(['sum'], { isActiveDocument: false, recentFileCount: 3 }));
+        // burstSize 0.24 is far from 0.5, so editSpread and activeEditor are not consulted
+        assert.strictEqual(result.confidence.toFixed(4), '0.2386');
+        assert.deepStrictEqual(result.ids, ['burstSize']);
+    });
+
+    test('Uses the tie-breakers to move an undecided result by at most 0.1', () => {
+        const result = evaluate(context(['renamed'], { isActiveDocument: false, recentFileCount: 2 }));
+        // burstSize 0.42 is within 0.1 of 0.5; editSpread 0.75 and activeEditor 0.9 nudge it up
+        assert.strictEqual(result.confidence.toFixed(4), '0.4845');
+        assert.deepStrictEqual(result.ids, ['burstSize', 'editSpread', 'activeEditor']);
+    });
+
+    test('Treats undo and redo as human regardless of where they land', () => {
+        const text = 'const a = 1;\nconst b = 2;\n';
+        const result = evaluate(context([text], { isActiveDocument: false, recentFileCount: 3 }, vscode.TextDocumentChangeReason.Undo));
+        assert.ok(result.confidence < 0.5, `confidence ${result.confidence}`);
+        assert.ok(!result.ids.includes('activeEditor') && !result.ids.includes('editSpread'));
+    });
+});
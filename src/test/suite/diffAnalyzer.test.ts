@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { DiffAnalyzer } from '../../diffAnalyzer';
+
+function patch(file: string, hunk: string[], header: string[] = []): string {
+    return [
+        `diff --git a/${file} b/${file}`,
+        ...header,
+        `--- a/${file}`,
+        `+++ b/${file}`,
+        ...hunk
+    ].join('\n');
+}
+
+suite('Diff Analyzer Test Suite', () => {
+    test('Describes new functions in a modified file as a feature scoped to the file', () => {
+        const diff = patch('src/parser.ts', [
+            '@@ -10,3 +10,8 @@ export class Parser {',
+            ' }',
+            '+',
+            '+export function parseHeader(line: string): Header {',
+            '+    return { name: line };',
+            '+}'
+        ]);
+        const description = DiffAnalyzer.describe(DiffAnalyzer.parse('M\tsrc/parser.ts', diff));
+        assert.strictEqual(description.type, 'feat');
+        assert.strictEqual(description.scope, 'parser');
+        assert.strictEqual(description.description, 'add parseHeader');
+    });
+
+    test('Uses the status from name-status for added, deleted and renamed files', () => {
+        const changes = DiffAnalyzer.parse('A\tsrc/cache.ts\nD\tsrc/legacy.ts\nR100\tsrc/old.ts\tsrc/new.ts', '');
+        assert.deepStrictEqual(changes.map(c => [c.path, c.status, c.oldPath]), [
+            ['src/cache.ts', 'added', undefined],
+            ['src/legacy.ts', 'deleted', undefined],
+            ['src/new.ts', 'renamed', 'src/old.ts']
+        ]);
+        assert.strictEqual(DiffAnalyzer.describe(changes.slice(1, 2)).description, 'remove legacy');
+        assert.strictEqual(DiffAnalyzer.describe(changes.slice(2)).description, 'rename old.ts to new.ts');
+    });
+
+    test('Falls back to the patch headers without name-status', () => {
+        const diff = patch('lib/util.py', ['@@ -0,0 +1,2 @@', '+def helper():', '+    pass'], ['new file mode 100644']);
+        const [change] = DiffAnalyzer.parse('', diff);
+        assert.strictEqual(change.status, 'added');
+        assert.strictEqual(change.additions, 2);
+    });
+
+    test('Infers the type from the kind of files changed', () => {
+        const type = (...files: string[]) => DiffAnalyzer.describe(DiffAnalyzer.parse(files.map(f => `M\t${f}`).join('\n'), '')).type;
+        assert.strictEqual(type('src/parser.test.ts', 'tests/fixtures/a.ts'), 'test');
+        assert.strictEqual(type('README.md', 'docs/setup.txt'), 'docs');
+        assert.strictEqual(type('.github/workflows/ci.yml'), 'ci');
+        assert.strictEqual(type('package.json', 'package-lock.json'), 'build');
+        assert.strictEqual(type('src/theme.scss'), 'style');
+        assert.strictEqual(type('src/bugfix/handler.ts'), 'fix');
+    });
+
+    test('Treats removed or edited functions as a refactor or fix', () => {
+        const removed = patch('src/api.ts', ['@@ -1,3 +1,0 @@', '-export function legacyCall() {', '-    return 1;', '-}']);
+        assert.strictEqual(DiffAnalyzer.describe(DiffAnalyzer.parse('M\tsrc/api.ts', removed)).type, 'refactor');
+
+        const edited = patch('src/api.ts', ['@@ -4,1 +4,1 @@ export function fetchUser(id: string) {', '-    return get(id);', '+    return get(id, { retry: true });']);
+        const description = DiffAnalyzer.describe(DiffAnalyzer.parse('M\tsrc/api.ts', edited));
+        assert.strictEqual(description.type, 'fix');
+        assert.strictEqual(description.description, 'update fetchUser');
+    });
+
+    test('Scopes to a shared directory and leaves mixed directories unscoped', () => {
+        const scope = (...files: string[]) => DiffAnalyzer.describe(DiffAnalyzer.parse(files.map(f => `M\t${f}`).join('\n'), '')).scope;
+        assert.strictEqual(scope('src/auth/login.ts', 'src/auth/token.ts'), 'auth');
+        assert.strictEqual(scope('src/auth/index.ts'), 'auth');
+        assert.strictEqual(scope('src/a.ts', 'src/b.ts'), '');
+        assert.strictEqual(scope('src/auth/login.ts', 'lib/db.ts'), '');
+    });
+});
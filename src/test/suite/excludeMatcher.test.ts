@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { ExcludeMatcher } from '../../excludeMatcher';
+
+function matcher(...patterns: string[]): ExcludeMatcher {
+    return new ExcludeMatcher(ExcludeMatcher.parse(patterns, '.cursorgitignore', true));
+}
+
+suite('Exclude Matcher Test Suite', () => {
+    test('Matches patterns without a slash at any depth', () => {
+        const exclude = matcher('*.log');
+        assert.strictEqual(exclude.explain('debug.log')?.pattern, '*.log');
+        assert.strictEqual(exclude.explain('server/logs/debug.log')?.line, 1);
+        assert.strictEqual(exclude.explain('src/catalog.ts'), undefined);
+    });
+
+    test('Anchors patterns containing a slash to the repository root', () => {
+        const exclude = matcher('/build', 'config/local.json');
+        assert.ok(exclude.isExcluded('build/out.js'));
+        assert.ok(!exclude.isExcluded('packages/api/build/out.js'));
+        assert.ok(exclude.isExcluded('config/local.json'));
+        assert.ok(!exclude.isExcluded('packages/config/local.json'));
+    });
+
+    test('Only matches directories with a trailing slash', () => {
+        const exclude = matcher('generated/');
+        assert.strictEqual(exclude.explain('src/generated/types.ts')?.pattern, 'generated/');
+        assert.strictEqual(exclude.explain('src/generated'), undefined);
+    });
+
+    test('Lets a later ! rule re-include a file', () => {
+        const exclude = matcher('*.env', '!example.env');
+        const rule = exclude.explain('config/example.env');
+        assert.strictEqual(rule?.pattern, '!example.env');
+        assert.strictEqual(rule?.negated, true);
+        assert.ok(!exclude.isExcluded('config/example.env'));
+        assert.ok(exclude.isExcluded('config/prod.env'));
+    });
+
+    test('Keeps a file excluded when its parent directory is excluded', () => {
+        const exclude = matcher('secrets/', '!secrets/README.md');
+        const rule = exclude.explain('secrets/README.md');
+        assert.strictEqual(rule?.pattern, 'secrets/');
+        assert.strictEqual(rule?.line, 1);
+        assert.ok(exclude.isExcluded('secrets/README.md'));
+    });
+
+    test('Re-includes a file when only the directory contents were excluded', () => {
+        const exclude = matcher('secrets/*', '!secrets/README.md');
+        assert.ok(!exclude.isExcluded('secrets/README.md'));
+        assert.ok(exclude.isExcluded('secrets/api.key'));
+    });
+});
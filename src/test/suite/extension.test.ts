@@ -27,8 +27,8 @@ suite('Extension Test Suite', () => {
         const config = vscode.workspace.getConfiguration('cursorGit');
         
         assert.strictEqual(config.get('enabled'), true);
-        assert.strictEqual(config.get('commitMessageTemplate'), 'AI: {description}');
+        assert.strictEqual(config.get('commitMessageTemplate'), '{type}{?scope}({scope}){/scope}: {description}');
         assert.strictEqual(config.get('autoStage'), true);
-        assert.strictEqual(config.get('commitFrequency'), 'immediate');
+        assert.strictEqual(config.get('commitFrequency'), 'onSave');
     });
 });
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { GitManager } from '../../gitManager';
+
+function git(root: string, ...args: string[]): string {
+    return execFileSync('git', args, { cwd: root, encoding: 'utf8' });
+}
+
+suite('Git Manager Test Suite', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-git-test-'));
+        git(root, 'init', '-q');
+        git(root, 'config', 'user.name', 'Test User');
+        git(root, 'config', 'user.email', 'test@example.com');
+        git(root, 'config', 'core.hooksPath', '.git/hooks');
+        fs.writeFileSync(path.join(root, 'human.txt'), 'one\n');
+        fs.writeFileSync(path.join(root, 'ai.txt'), 'l1\nl2\nl3\nl4\nl5\nl6\nl7\nl8\n');
+        git(root, 'add', '.');
+        git(root, 'commit', '-q', '-m', 'initial');
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('A failing hook leaves the index exactly as it was', async () => {
+        fs.writeFileSync(path.join(root, 'human.txt'), 'one\ntwo\n');
+        git(root, 'add', 'human.txt');
+        fs.writeFileSync(path.join(root, 'ai.txt'), 'human edit\nl2\nl3\nl4\nl5\nl6\nl7\nai line\n');
+        fs.writeFileSync(path.join(root, '.git', 'hooks', 'pre-commit'), '#!/bin/sh\necho "lint failed"\nexit 1\n', { mode: 0o755 });
+        const indexBefore = git(root, 'ls-files', '-s');
+
+        const aiFile = path.join(root, 'ai.txt');
+        const result = await new GitManager(root).stageAndCommit(
+            'feat: add the ai line',
+            [aiFile],
+            new Map([[aiFile, [{ startLine: 7, endLine: 7 }]]])
+        );
+
+        assert.strictEqual(result.success, false);
+        assert.ok(result.hookOutput?.includes('lint failed'));
+        assert.strictEqual(git(root, 'rev-list', '--count', 'HEAD').trim(), '1');
+        assert.strictEqual(git(root, 'ls-files', '-s'), indexBefore);
+    });
+
+    test('Commits only the given files and keeps what the user staged', async () => {
+        fs.writeFileSync(path.join(root, 'human.txt'), 'one\ntwo\n');
+        git(root, 'add', 'human.txt');
+        fs.writeFileSync(path.join(root, 'ai.txt'), 'l1\nl2\nl3\nl4\nl5\nl6\nl7\nai line\n');
+
+        const result = await new GitManager(root).stageAndCommit('feat: add the ai line', [path.join(root, 'ai.txt')]);
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(git(root, 'show', '--name-only', '--format=', 'HEAD').trim(), 'ai.txt');
+        assert.strictEqual(git(root, 'diff', '--cached', '--name-only').trim(), 'human.txt');
+    });
+});
@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { Glob } from '../../glob';
+
+suite('Glob Test Suite', () => {
+    test('Anchors patterns unless they may match at any depth', () => {
+        assert.ok(Glob.toRegExp('release/*').test('release/1.0'));
+        assert.ok(!Glob.toRegExp('release/*').test('release/1.0/hotfix'));
+        assert.ok(Glob.toRegExp('*.lock', { matchAnyDepth: true }).test('packages/api/yarn.lock'));
+        assert.ok(!Glob.toRegExp('*.lock').test('packages/api/yarn.lock'));
+        assert.ok(!Glob.toRegExp('/dist', { matchAnyDepth: true }).test('packages/dist'));
+    });
+
+    test('Lets whole ** segments span directories', () => {
+        assert.ok(Glob.toRegExp('release/**').test('release/2024/hotfix'));
+        assert.ok(Glob.toRegExp('docs/**/*.md').test('docs/guide.md'));
+        assert.ok(Glob.toRegExp('docs/**/*.md').test('docs/a/b/guide.md'));
+        assert.ok(Glob.toRegExp('**').test('feature/x'));
+    });
+
+    test('Treats regex characters literally and supports classes', () => {
+        assert.ok(Glob.toRegExp('v1.0').test('v1.0'));
+        assert.ok(!Glob.toRegExp('v1.0').test('v1x0'));
+        assert.ok(Glob.toRegExp('hotfix-[0-9]').test('hotfix-3'));
+        assert.ok(!Glob.toRegExp('hotfix-[!0-9]').test('hotfix-3'));
+    });
+});
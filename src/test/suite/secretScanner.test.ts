@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { SecretScanner } from '../../secretScanner';
+
+function scanAddedLine(line: string, file: string = 'src/config.ts') {
+    const diff = [
+        `diff --git a/${file} b/${file}`,
+        `--- a/${file}`,
+        `+++ b/${file}`,
+        '@@ -0,0 +1 @@',
+        `+${line}`
+    ].join('\n');
+    return SecretScanner.load(os.tmpdir()).scan(diff);
+}
+
+suite('Secret Scanner Test Suite', () => {
+    test('Flags high-entropy string literals assigned to secret names', () => {
+        const findings = scanAddedLine('const apiKey = "q8Xv2LmZ7rT4nWb9KcY3";');
+        assert.strictEqual(findings.length, 1);
+        assert.strictEqual(findings[0].ruleId, 'generic-secret-assignment');
+        assert.strictEqual(findings[0].line, 1);
+    });
+
+    test('Flags quoted values in object literals and env-style names', () => {
+        assert.strictEqual(scanAddedLine('    client_secret: \'hT7kQ2vNp9LxW4zR\',').length, 1);
+        assert.strictEqual(scanAddedLine('AUTH_TOKEN="Zk81mQpX7vLr2NbT5cW0"').length, 1);
+    });
+
+    test('Flags unquoted secrets in .env, properties and YAML files', () => {
+        assert.strictEqual(scanAddedLine('OPENAI_API_KEY=q8Xv2LmZ7rT4nWb9KcY3', '.env')[0]?.ruleId, 'config-secret-assignment');
+        assert.strictEqual(scanAddedLine('DB_PASSWORD=hT7kQ2vNp9LxW4zR', 'services/api/.env.local').length, 1);
+        assert.strictEqual(scanAddedLine('db.password = hT7kQ2vNp9LxW4zR', 'src/main/resources/app.properties').length, 1);
+        assert.strictEqual(scanAddedLine('  secret: hT7kQ2vNp9LxW4zR', 'config/app.yml').length, 1);
+        assert.deepStrictEqual(scanAddedLine('DB_PASSWORD=hT7kQ2vNp9LxW4zR', 'docs/setup.md'), []);
+        assert.deepStrictEqual(scanAddedLine('DB_HOST=database.internal.example', '.env'), []);
+    });
+
+    test('Flags provider-prefixed keys whatever they are assigned to', () => {
+        const findings = scanAddedLine('const openaiKey = "sk-proj-q8Xv2LmZ7rT4nWb9KcY3hT7kQ2vN";');
+        assert.strictEqual(findings.length, 1);
+        assert.strictEqual(findings[0].ruleId, 'openai-api-key');
+        assert.strictEqual(scanAddedLine('OPENAI_API_KEY=sk-q8Xv2LmZ7rT4nWb9KcY3hT7k', '.env')[0]?.ruleId, 'openai-api-key');
+    });
+
+    test('Ignores values read from variables or the environment', () => {
+        const lines = [
+            'const apiKey = process.env.OPENAI_API_KEY;',
+            'const token = request.headers.authorization;',
+            'password: hashedPasswordFromDatabase,',
+            'const secretName = config.getSecretManagerName();',
+            'const authorName = commit.authorDisplayName;'
+        ];
+        for (const line of lines) {
+            assert.deepStrictEqual(scanAddedLine(line), [], line);
+        }
+    });
+
+    test('Does not treat words containing a keyword as secret names', () => {
+        assert.deepStrictEqual(scanAddedLine('const authorEmail = "q8Xv2LmZ7rT4nWb9KcY3";'), []);
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TypingCalibration } from '../../typingCalibration';
+
+function keystrokes(count: number, intervalMs: number, startTime: number = 1000, startLength: number = 0): Array<{time: number, length: number}> {
+    return Array.from({ length: count }, (_, i) => ({ time: startTime + i * intervalMs, length: startLength + i }));
+}
+
+/** A `globalState` that stores JSON and whose writes land a moment later. */
+class SlowMemento {
+    private values = new Map<string, string>();
+
+    keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        const value = this.values.get(key);
+        return value === undefined ? defaultValue : JSON.parse(value);
+    }
+
+    update(key: string, value: unknown): Promise<void> {
+        return new Promise(resolve => setTimeout(() => {
+            if (value === undefined) {
+                this.values.delete(key);
+            } else {
+                this.values.set(key, JSON.stringify(value));
+            }
+            resolve();
+        }, 5));
+    }
+}
+
+suite('Typing Calibration Test Suite', () => {
+    test('Turns every 20 typed characters into a WPM sample', () => {
+        // One character every 100ms is 120 WPM
+        const samples = TypingCalibration.samplesFromKeystrokes(keystrokes(41, 100), 2000);
+        assert.deepStrictEqual(samples, [120, 120]);
+    });
+
+    test('Drops the run a long pause interrupts', () => {
+        const before = keystrokes(11, 100);
+        const after = keystrokes(21, 50, 10000, 10);
+        // 10 characters before the pause are lost, 20 after it at 240 WPM count
+        assert.deepStrictEqual(TypingCalibration.samplesFromKeystrokes([...before, ...after], 2000), [240]);
+    });
+
+    test('Returns no samples for a passage too short to time', () => {
+        assert.deepStrictEqual(TypingCalibration.samplesFromKeystrokes(keystrokes(10, 100), 2000), []);
+    });
+
+    test('Sets the threshold at the mean plus the given deviations', () => {
+        const profile = TypingCalibration.buildProfile([100, 120, 140], 3, 'sample');
+        assert.strictEqual(profile.mean, 120);
+        assert.strictEqual(profile.standardDeviation.toFixed(2), '16.33');
+        assert.strictEqual(profile.threshold, 169);
+        assert.strictEqual(profile.source, 'sample');
+    });
+
+    test('Keeps the threshold between 50 and 500 WPM', () => {
+        assert.strictEqual(TypingCalibration.buildProfile([20, 20, 20], 3, 'passive').threshold, 50);
+        assert.strictEqual(TypingCalibration.buildProfile([400, 600, 800], 3, 'passive').threshold, 500);
+    });
+
+    test('Keeps every sample from sessions recorded at the same time', async () => {
+        const state = new SlowMemento();
+        await state.update('cursorGit.passiveCalibration', { target: 10, samples: [] });
+        const calibration = new TypingCalibration(state as unknown as vscode.Memento);
+
+        await Promise.all([60, 70, 80].map(wpm => calibration.recordHumanSession(wpm)));
+
+        assert.deepStrictEqual(calibration.getPassiveProgress()?.samples, [60, 70, 80]);
+    });
+});
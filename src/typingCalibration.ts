@@ -0,0 +1,364 @@
+import * as vscode from 'vscode';
+
+export interface TypingProfile {
+    samples: number[]; // WPM of each calibration sample
+    mean: number;
+    standardDeviation: number;
+    deviations: number; // k in mean + k * standardDeviation
+    threshold: number;
+    source: 'sample' | 'passive';
+    calibratedAt: number;
+}
+
+interface PassiveCalibration {
+    target: number;
+    samples: number[];
+}
+
+const PROFILE_KEY = 'cursorGit.typingProfile';
+const PASSIVE_KEY = 'cursorGit.passiveCalibration';
+const REMINDER_SNOOZE_KEY = 'cursorGit.calibrationReminderSnoozedUntil';
+
+const CALIBRATION_PASSAGE =
+    'The quick brown fox jumps over the lazy dog while the build runs. ' +
+    'Every commit tells a story about the code, so write it with care and keep it small.';
+const SAMPLE_CHARACTERS = 20; // characters per WPM sample in the typing test
+const MIN_SAMPLES = 3;
+const MIN_THRESHOLD = 50;
+const MAX_THRESHOLD = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Learns the user's typing speed and turns it into a personal
+ * `typingSpeedThreshold`: mean plus `calibrationDeviations` standard
+ * deviations of their WPM samples. Samples come from a typing test or from
+ * watching the next human-confirmed typing sessions. The profile lives in
+ * `globalState`, so it follows the user across workspaces.
+ */
+export class TypingCalibration {
+    private state: vscode.Memento;
+    private panel: vscode.WebviewPanel | undefined;
+    private passiveUpdates: Promise<void> = Promise.resolve(); // one read-modify-write of the passive samples at a time
+
+    constructor(state: vscode.Memento) {
+        this.state = state;
+    }
+
+    getProfile(): TypingProfile | undefined {
+        return this.state.get<TypingProfile>(PROFILE_KEY);
+    }
+
+    /** The calibrated threshold, or `typingSpeedThreshold` when there is no profile yet. */
+    getThreshold(): number {
+        const profile = this.getProfile();
+        return profile ? profile.threshold : vscode.workspace.getConfiguration('cursorGit').get<number>('typingSpeedThreshold', 150);
+    }
+
+    getPassiveProgress(): PassiveCalibration | undefined {
+        return this.state.get<PassiveCalibration>(PASSIVE_KEY);
+    }
+
+    async runWizard(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('cursorGit');
+        const sessions = config.get<number>('calibrationSessions', 20);
+        const choices = [
+            { label: 'Type a sample', description: 'Type a short passage at your normal pace', value: 'sample' },
+            { label: 'Learn from my typing', description: `Watch your next ${sessions} human typing sessions`, value: 'passive' },
+            { label: 'Show typing profile', description: 'Current WPM distribution and threshold', value: 'show' }
+        ];
+        if (this.getProfile()) {
+            choices.push({ label: 'Reset calibration', description: 'Go back to the typingSpeedThreshold setting', value: 'reset' });
+        }
+
+        const choice = await vscode.window.showQuickPick(choices, { placeHolder: 'How should Cursor Git learn your typing speed?' });
+        switch (choice?.value) {
+            case 'sample': {
+                const samples = await this.recordTypingSample();
+                if (!samples) {
+                    return;
+                }
+                if (samples.length < MIN_SAMPLES) {
+                    vscode.window.showWarningMessage('That sample was too short to calibrate from. Type the whole passage and try again.');
+                    return;
+                }
+                await this.saveProfile(samples, 'sample');
+                break;
+            }
+            case 'passive':
+                await this.state.update(PASSIVE_KEY, { target: sessions, samples: [] });
+                vscode.window.showInformationMessage(`Cursor Git will learn your typing speed from your next ${sessions} typing sessions.`);
+                break;
+            case 'show':
+                this.showProfile();
+                break;
+            case 'reset':
+                await this.state.update(PROFILE_KEY, undefined);
+                await this.state.update(PASSIVE_KEY, undefined);
+                vscode.window.showInformationMessage(`Calibration reset. Using typingSpeedThreshold (${this.getThreshold()} WPM).`);
+                this.refreshPanel();
+                break;
+        }
+    }
+
+    /**
+     * Adds a finished human typing session to a passive calibration in
+     * progress. Calls are queued, so sessions ending together don't overwrite
+     * each other's samples.
+     */
+    recordHumanSession(wpm: number): Promise<void> {
+        const update = this.passiveUpdates.then(() => this.addPassiveSample(wpm));
+        this.passiveUpdates = update.catch(() => undefined);
+        return update;
+    }
+
+    private async addPassiveSample(wpm: number): Promise<void> {
+        const progress = this.getPassiveProgress();
+        if (!progress || !isFinite(wpm) || wpm <= 0) {
+            return;
+        }
+
+        progress.samples.push(wpm);
+        if (progress.samples.length < progress.target) {
+            await this.state.update(PASSIVE_KEY, progress);
+            this.refreshPanel();
+            return;
+        }
+
+        await this.state.update(PASSIVE_KEY, undefined);
+        await this.saveProfile(progress.samples, 'passive');
+    }
+
+    /** Offers to recalibrate once the profile is older than `calibrationReminderDays`. */
+    async remindIfStale(): Promise<void> {
+        const profile = this.getProfile();
+        const days = vscode.workspace.getConfiguration('cursorGit').get<number>('calibrationReminderDays', 90);
+        const now = Date.now();
+        if (!profile || days <= 0 || now - profile.calibratedAt < days * DAY_MS || now < this.state.get<number>(REMINDER_SNOOZE_KEY, 0)) {
+            return;
+        }
+
+        const age = Math.floor((now - profile.calibratedAt) / DAY_MS);
+        const selection = await vscode.window.showInformationMessage(
+            `Your typing profile is ${age} days old. Recalibrate so AI detection keeps up with your typing speed?`,
+            'Recalibrate',
+            'Later'
+        );
+        if (selection === 'Recalibrate') {
+            await this.runWizard();
+        } else {
+            await this.state.update(REMINDER_SNOOZE_KEY, now + 7 * DAY_MS);
+        }
+    }
+
+    static buildProfile(samples: number[], deviations: number, source: TypingProfile['source']): TypingProfile {
+        const mean = samples.reduce((total, wpm) => total + wpm, 0) / samples.length;
+        const standardDeviation = Math.sqrt(samples.reduce((total, wpm) => total + (wpm - mean) ** 2, 0) / samples.length);
+        const threshold = Math.round(Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, mean + deviations * standardDeviation)));
+        return { samples, mean, standardDeviation, deviations, threshold, source, calibratedAt: Date.now() };
+    }
+
+    /**
+     * Splits the typing test into runs of about `SAMPLE_CHARACTERS` typed
+     * characters and returns the WPM of each. Pauses longer than
+     * `sessionTimeout` end a run without counting it.
+     */
+    static samplesFromKeystrokes(keystrokes: Array<{time: number, length: number}>, pauseMs: number): number[] {
+        const samples: number[] = [];
+        let start = keystrokes[0];
+        let typed = 0;
+        for (let i = 1; i < keystrokes.length; i++) {
+            const previous = keystrokes[i - 1];
+            const current = keystrokes[i];
+            if (current.time - previous.time > pauseMs) {
+                start = current;
+                typed = 0;
+                continue;
+            }
+            typed += Math.max(0, current.length - previous.length);
+            if (typed >= SAMPLE_CHARACTERS && current.time > start.time) {
+                samples.push((typed / 5) / ((current.time - start.time) / 60000));
+                start = current;
+                typed = 0;
+            }
+        }
+        return samples;
+    }
+
+    showProfile(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            this.refreshPanel();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'cursorGitTypingProfile',
+            'Cursor Git Typing Profile',
+            vscode.ViewColumn.Active,
+            {}
+        );
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+        this.refreshPanel();
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+    }
+
+    private async recordTypingSample(): Promise<number[] | undefined> {
+        const pauseMs = vscode.workspace.getConfiguration('cursorGit').get<number>('sessionTimeout', 2000);
+        const keystrokes: Array<{time: number, length: number}> = [{ time: 0, length: 0 }];
+        const input = vscode.window.createInputBox();
+        input.title = 'Cursor Git: Typing Calibration';
+        input.prompt = CALIBRATION_PASSAGE;
+        input.placeholder = 'Type the passage below at your normal pace, then press Enter';
+        input.ignoreFocusOut = true;
+
+        return new Promise(resolve => {
+            input.onDidChangeValue(value => {
+                // The clock starts at the first keystroke
+                if (keystrokes[0].time === 0) {
+                    keystrokes[0].time = Date.now();
+                }
+                keystrokes.push({ time: Date.now(), length: value.length });
+            });
+            input.onDidAccept(() => {
+                resolve(TypingCalibration.samplesFromKeystrokes(keystrokes, pauseMs));
+                input.hide();
+            });
+            input.onDidHide(() => {
+                resolve(undefined);
+                input.dispose();
+            });
+            input.show();
+        });
+    }
+
+    private async saveProfile(samples: number[], source: TypingProfile['source']): Promise<void> {
+        const deviations = vscode.workspace.getConfiguration('cursorGit').get<number>('calibrationDeviations', 3);
+        const profile = TypingCalibration.buildProfile(samples, deviations, source);
+        await this.state.update(PROFILE_KEY, profile);
+        await this.state.update(REMINDER_SNOOZE_KEY, undefined);
+        this.refreshPanel();
+
+        // Not awaited, so the passive queue doesn't wait on the notification
+        vscode.window.showInformationMessage(
+            `Typing calibrated: you type ${profile.mean.toFixed(0)} ± ${profile.standardDeviation.toFixed(0)} WPM, ` +
+            `so edits faster than ${profile.threshold} WPM now count as AI.`,
+            'Show Profile'
+        ).then(selection => {
+            if (selection === 'Show Profile') {
+                this.showProfile();
+            }
+        });
+    }
+
+    private refreshPanel(): void {
+        if (this.panel) {
+            this.panel.webview.html = this.getWebviewContent();
+        }
+    }
+
+    private getWebviewContent(): string {
+        const profile = this.getProfile();
+        const progress = this.getPassiveProgress();
+        const progressHtml = progress
+            ? `<p>Learning from your typing: ${progress.samples.length} of ${progress.target} sessions recorded.</p>`
+            : '';
+
+        if (!profile) {
+            return this.wrapHtml(`
+    <p>No typing profile yet. Using the <code>typingSpeedThreshold</code> setting: <strong>${this.getThreshold()} WPM</strong>.</p>
+    ${progressHtml}
+    <p>Run <em>Cursor Git: Calibrate Typing Speed</em> to create one.</p>`);
+        }
+
+        // 10 WPM buckets from 0 up to past the threshold
+        const bucketSize = 10;
+        const top = Math.max(profile.threshold, ...profile.samples) + bucketSize;
+        const counts = new Array(Math.ceil(top / bucketSize)).fill(0);
+        for (const wpm of profile.samples) {
+            counts[Math.min(counts.length - 1, Math.floor(wpm / bucketSize))]++;
+        }
+        const maxCount = Math.max(...counts, 1);
+        const bars = counts.map((count, index) => {
+            const from = index * bucketSize;
+            const isThreshold = profile.threshold >= from && profile.threshold < from + bucketSize;
+            return `<div class="row${isThreshold ? ' threshold' : ''}">
+        <span class="label">${from}-${from + bucketSize - 1}</span>
+        <span class="bar" style="width: ${(count / maxCount) * 100}%"></span>
+        <span class="count">${count || ''}${isThreshold ? ' ← threshold' : ''}</span>
+    </div>`;
+        }).join('\n    ');
+
+        return this.wrapHtml(`
+    <table>
+        <tr><td>Mean</td><td>${profile.mean.toFixed(1)} WPM</td></tr>
+        <tr><td>Standard deviation</td><td>${profile.standardDeviation.toFixed(1)} WPM</td></tr>
+        <tr><td>Threshold</td><td><strong>${profile.threshold} WPM</strong> (mean + ${profile.deviations} × deviation)</td></tr>
+        <tr><td>Samples</td><td>${profile.samples.length} from ${profile.source === 'sample' ? 'a typing sample' : 'your typing sessions'}</td></tr>
+        <tr><td>Calibrated</td><td>${new Date(profile.calibratedAt).toLocaleString()}</td></tr>
+    </table>
+    ${progressHtml}
+    <h2>WPM distribution</h2>
+    ${bars}`);
+    }
+
+    private wrapHtml(body: string): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Cursor Git Typing Profile</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+        }
+
+        td {
+            padding: 2px 16px 2px 0;
+        }
+
+        .row {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin: 2px 0;
+        }
+
+        .label {
+            width: 70px;
+            text-align: right;
+            opacity: 0.8;
+        }
+
+        .bar {
+            height: 14px;
+            min-width: 1px;
+            max-width: 60%;
+            background-color: var(--vscode-charts-blue, var(--vscode-button-background));
+        }
+
+        .threshold .bar {
+            background-color: var(--vscode-charts-red, var(--vscode-errorForeground));
+        }
+
+        .threshold .count {
+            color: var(--vscode-errorForeground);
+        }
+    </style>
+</head>
+<body>
+    <h1>Typing Profile</h1>
+    ${body}
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Glob } from './glob';
+
+export interface WorkspacePackage {
+    name: string;
+    directory: string; // relative to the repository root, posix separators
+}
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Maps files to the workspace packages that own them, reading the package
+ * globs from `package.json` workspaces, `pnpm-workspace.yaml` and
+ * `lerna.json`. Package names become conventional-commit scopes, with any
+ * npm scope (`@org/`) stripped.
+ */
+export class WorkspaceScopeResolver {
+    private root: string;
+    private cachedSignature: string | null = null;
+    private cachedPackages: WorkspacePackage[] = [];
+
+    constructor(root: string) {
+        this.root = root;
+    }
+
+    getPackages(): WorkspacePackage[] {
+        const sources = ['package.json', 'pnpm-workspace.yaml', 'lerna.json'].map(file => this.readFile(file));
+        const signature = sources.join('\0');
+        if (signature === this.cachedSignature) {
+            return this.cachedPackages;
+        }
+
+        const [packageJson, pnpmWorkspace, lernaJson] = sources;
+        const patterns = [
+            ...this.patternsFromPackageJson(packageJson),
+            ...this.patternsFromPnpmWorkspace(pnpmWorkspace),
+            ...this.patternsFromLernaJson(lernaJson)
+        ];
+
+        this.cachedSignature = signature;
+        this.cachedPackages = this.resolvePackages(patterns);
+        return this.cachedPackages;
+    }
+
+    /** Returns the scopes of the packages containing `files`, in first-seen order. */
+    getScopes(files: string[]): string[] {
+        const packages = [...this.getPackages()].sort((a, b) => b.directory.length - a.directory.length);
+        const scopes: string[] = [];
+        for (const file of files) {
+            const normalized = file.split(path.sep).join('/');
+            const owner = packages.find(p => normalized === p.directory || normalized.startsWith(p.directory + '/'));
+            if (owner && !scopes.includes(owner.name)) {
+                scopes.push(owner.name);
+            }
+        }
+        return scopes;
+    }
+
+    private readFile(file: string): string {
+        const fullPath = path.join(this.root, file);
+        return fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf8') : '';
+    }
+
+    private patternsFromPackageJson(content: string): string[] {
+        try {
+            const workspaces = content ? JSON.parse(content).workspaces : undefined;
+            // Either an array or Yarn's { packages: [...] } form
+            const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+            return Array.isArray(patterns) ? patterns.filter((p: unknown): p is string => typeof p === 'string') : [];
+        } catch (error) {
+            console.error('Error reading package.json workspaces:', error);
+            return [];
+        }
+    }
+
+    private patternsFromPnpmWorkspace(content: string): string[] {
+        // Only the `packages:` list is needed, so a line-based read avoids a YAML dependency
+        const patterns: string[] = [];
+        let inPackages = false;
+        for (const line of content.split('\n')) {
+            if (/^packages\s*:/.test(line)) {
+                inPackages = true;
+                continue;
+            }
+            if (inPackages && /^\S/.test(line)) {
+                break;
+            }
+            const item = inPackages ? line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/) : null;
+            if (item) {
+                patterns.push(item[1]);
+            }
+        }
+        return patterns;
+    }
+
+    private patternsFromLernaJson(content: string): string[] {
+        try {
+            const packages = content ? JSON.parse(content).packages : undefined;
+            return Array.isArray(packages) ? packages.filter((p: unknown): p is string => typeof p === 'string') : [];
+        } catch (error) {
+            console.error('Error reading lerna.json packages:', error);
+            return [];
+        }
+    }
+
+    private resolvePackages(patterns: string[]): WorkspacePackage[] {
+        const included = patterns.filter(p => !p.startsWith('!'));
+        const excluded = patterns.filter(p => p.startsWith('!')).map(p => Glob.toRegExp(p.substring(1).replace(/\/+$/, '')));
+
+        const directories = new Set<string>();
+        for (const pattern of included) {
+            const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/').filter(s => s);
+            this.expand('', segments, directories);
+        }
+
+        const packages: WorkspacePackage[] = [];
+        for (const directory of directories) {
+            if (excluded.some(regex => regex.test(directory))) {
+                continue;
+            }
+            const manifest = this.readFile(path.posix.join(directory, 'package.json'));
+            if (!manifest) {
+                continue;
+            }
+            try {
+                const name: unknown = JSON.parse(manifest).name;
+                packages.push({
+                    name: typeof name === 'string' && name ? name.replace(/^@[^/]+\//, '') : path.posix.basename(directory),
+                    directory
+                });
+            } catch (error) {
+                console.error(`Error reading ${directory}/package.json:`, error);
+            }
+        }
+        return packages;
+    }
+
+    private expand(base: string, segments: string[], results: Set<string>): void {
+        if (segments.length === 0) {
+            if (base) {
+                results.add(base);
+            }
+            return;
+        }
+
+        const [segment, ...rest] = segments;
+        if (segment === '**') {
+            // Zero or more directories
+            this.expand(base, rest, results);
+            for (const child of this.listDirectories(base)) {
+                this.expand(path.posix.join(base, child), segments, results);
+            }
+            return;
+        }
+
+        if (!/[*?[]/.test(segment)) {
+            const next = path.posix.join(base, segment);
+            if (fs.existsSync(path.join(this.root, next))) {
+                this.expand(next, rest, results);
+            }
+            return;
+        }
+
+        const regex = Glob.toRegExp(segment);
+        for (const child of this.listDirectories(base)) {
+            if (regex.test(child)) {
+                this.expand(path.posix.join(base, child), rest, results);
+            }
+        }
+    }
+
+    private listDirectories(relative: string): string[] {
+        try {
+            return fs.readdirSync(path.join(this.root, relative), { withFileTypes: true })
+                .filter(entry => entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name))
+                .map(entry => entry.name);
+        } catch (error) {
+            console.error(`Error listing ${relative || '.'}:`, error);
+            return [];
+        }
+    }
+}